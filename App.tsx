@@ -8,6 +8,7 @@ import { ChatBot } from './components/ChatBot';
 import { ProfileView } from './components/ProfileView';
 import { CompareView } from './components/CompareView';
 import { storageService } from './services/storageService';
+import { uploadQueue } from './services/uploadQueue';
 import { User, Contract } from './types';
 
 // Simple router state
@@ -28,6 +29,12 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // The upload queue belongs to the signed-in user and keeps running across views
+  useEffect(() => {
+    if (user) uploadQueue.load(user.id);
+    else uploadQueue.unload();
+  }, [user?.id]);
+
   const handleLogin = (email: string, name: string = 'User') => {
     // In a real app, verify credentials. Here, we mock it.
     const newUser: User = { id: email, email, name };
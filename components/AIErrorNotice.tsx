@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertCircle, RefreshCw, X } from 'lucide-react';
+import { AIErrorKind, RECOVERY_HINTS } from '../services/aiErrors';
+
+interface AIErrorNoticeProps {
+  kind: AIErrorKind;
+  message: string;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  // Extra recovery buttons specific to the caller, e.g. "Remove file"
+  actions?: { label: string; onClick: () => void }[];
+  compact?: boolean;
+}
+
+export const AIErrorNotice: React.FC<AIErrorNoticeProps> = ({ kind, message, onRetry, onDismiss, actions = [], compact = false }) => {
+  const recovery = RECOVERY_HINTS[kind];
+
+  return (
+    <div className={`bg-red-950/30 border border-red-900/30 rounded-lg text-red-300 animate-fade-in ${compact ? 'p-2 text-xs' : 'p-4 text-sm'}`}>
+      <div className="flex items-start gap-2">
+        <AlertCircle className={`shrink-0 mt-0.5 ${compact ? 'w-3 h-3' : 'w-4 h-4'}`} />
+        <div className="flex-1 min-w-0">
+          <div className="font-semibold text-red-200">{recovery.title}</div>
+          <div className="mt-0.5">{message}</div>
+          <div className="mt-1 text-red-400/80">{recovery.hint}</div>
+
+          {((recovery.canRetry && onRetry) || actions.length > 0) && (
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              {recovery.canRetry && onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="flex items-center font-medium text-indigo-300 hover:text-indigo-200 bg-indigo-900/30 px-2 py-1 rounded hover:bg-indigo-900/50 border border-indigo-900/30 transition-all"
+                >
+                  <RefreshCw className="w-3 h-3 mr-1.5" /> Try again
+                </button>
+              )}
+              {actions.map(action => (
+                <button
+                  key={action.label}
+                  onClick={action.onClick}
+                  className="font-medium text-slate-300 hover:text-slate-100 bg-slate-800 px-2 py-1 rounded hover:bg-slate-700 border border-slate-700 transition-all"
+                >
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} className="text-red-400/70 hover:text-red-200 shrink-0" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
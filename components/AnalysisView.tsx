@@ -1,10 +1,26 @@
-import React, { useState, useEffect } from 'react';
-import { Contract, Clause } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Contract, Clause, KeyFacts, RiskCategory, RiskLevel } from '../types';
 import { ClauseCard } from './ClauseCard';
 import { RiskBadge } from './RiskBadge';
-import { FileText, ArrowLeft, PieChart, AlertOctagon, Download, Eye, ShieldAlert, FileDown } from 'lucide-react';
-import { PieChart as RePieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import { FileText, ArrowLeft, PieChart, AlertOctagon, Download, Eye, ShieldAlert, FileDown, ListChecks, Database, RefreshCw, Loader2, Cpu, CalendarPlus, CalendarClock, Languages, ShieldOff, BookMarked } from 'lucide-react';
+import { PieChart as RePieChart, Pie, Cell, ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis } from 'recharts';
 import { jsPDF } from 'jspdf';
+import { ANALYSIS_PROMPT_VERSION, analyzeContract } from '../services/geminiService';
+import { AIErrorKind, classifyAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+import { HighlightedDocument, passageElementId } from './HighlightedDocument';
+import { KeyFactsPanel } from './KeyFactsPanel';
+import { DeadlineList } from './DeadlineList';
+import { computeDeadlines, downloadCalendar, upcomingDeadlines } from '../services/deadlines';
+import { KEY_FACT_FIELDS, factsFor, hasKeyFacts } from '../services/keyFacts';
+import { anchorClauses, isAnchored } from '../services/clauseAnchors';
+import { RISK_CATEGORIES, clauseCategory } from '../services/riskCategories';
+import { currentOutputLanguage, languageName } from '../services/languages';
+import { drawShapedLine, needsShaping, toStandardText, wrapShapedText } from '../services/pdfText';
+import { applyPlaybook, currentPlaybook } from '../services/playbook';
+import { LOW_CONFIDENCE, needsReview, updateClause } from '../services/reviewQueue';
+import { describeTextExtraction } from '../services/documentText';
+import { DocumentPages } from './DocumentPages';
 
 interface AnalysisViewProps {
   contract: Contract;
@@ -12,9 +28,32 @@ interface AnalysisViewProps {
   onContractUpdate?: (contract: Contract) => void;
 }
 
+const clauseCardElementId = (clauseId: string) => `clause-card-${clauseId}`;
+
 export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, onContractUpdate }) => {
   const [activeTab, setActiveTab] = useState<'analysis' | 'text'>('analysis');
   const [displayedScore, setDisplayedScore] = useState(0);
+  const [reanalyzing, setReanalyzing] = useState(false);
+  const [reanalyzeError, setReanalyzeError] = useState<{ kind: AIErrorKind; message: string } | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<RiskCategory | null>(null);
+  // Clause to scroll to once the given tab has rendered
+  const [jumpTarget, setJumpTarget] = useState<{ clauseId: string; tab: 'analysis' | 'text' } | null>(null);
+  const playbook = useMemo(() => currentPlaybook(), []);
+
+  // Analyses saved before clauses were anchored get their offsets worked out on the fly
+  const anchoredClauses = useMemo(() => {
+    const analysis = contract.analysis;
+    if (!analysis) return [];
+    return analysis.fullText && !analysis.clauses.every(isAnchored)
+      ? anchorClauses(analysis.clauses, analysis.fullText)
+      : analysis.clauses;
+  }, [contract.analysis]);
+
+  useEffect(() => {
+    if (!jumpTarget || jumpTarget.tab !== activeTab) return;
+    const elementId = activeTab === 'text' ? passageElementId(jumpTarget.clauseId) : clauseCardElementId(jumpTarget.clauseId);
+    document.getElementById(elementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [jumpTarget, activeTab]);
 
   useEffect(() => {
     if (contract.analysis?.riskScore !== undefined) {
@@ -39,7 +78,34 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
 
   if (!contract.analysis) return <div>No analysis available.</div>;
 
-  const { summary, overallRisk, riskScore, clauses, fullText } = contract.analysis;
+  const { summary, overallRisk, riskScore, modelRating, clauses, fullText, source, ruleBaseline, cachedAt, provenance, sourceLanguage, outputLanguage, contractType, missingProtections, confidence, textExtraction, ocrPages } = contract.analysis;
+  const locatedCount = anchoredClauses.filter(isAnchored).length;
+  const deadlines = computeDeadlines(contract);
+  const upcoming = upcomingDeadlines([contract], Infinity);
+
+  // Clause counts per category and risk level, most common category first
+  const categoryStats = RISK_CATEGORIES
+    .map(category => {
+      const inCategory = clauses.filter(c => clauseCategory(c) === category);
+      return {
+        category,
+        total: inCategory.length,
+        High: inCategory.filter(c => c.riskLevel === RiskLevel.HIGH).length,
+        Medium: inCategory.filter(c => c.riskLevel === RiskLevel.MEDIUM).length,
+        Low: inCategory.filter(c => c.riskLevel === RiskLevel.LOW).length,
+      };
+    })
+    .filter(stat => stat.total > 0)
+    .sort((a, b) => b.total - a.total);
+
+  const visibleClauses = categoryFilter
+    ? anchoredClauses.filter(c => clauseCategory(c) === categoryFilter)
+    : anchoredClauses;
+  // AI analyses saved before prompts were versioned have no provenance and count as outdated
+  const promptOutdated = source !== 'rules' && provenance?.promptVersion !== ANALYSIS_PROMPT_VERSION;
+  // Analyses from before the language setting were written in English
+  const explainedIn = outputLanguage || 'en';
+  const languageChanged = source !== 'rules' && explainedIn !== currentOutputLanguage();
   
   // Calculate stats for chart
   const riskCounts = {
@@ -80,7 +146,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
   const handleDownloadReport = () => {
     if (!contract.analysis) return;
 
-    const { summary, overallRisk, riskScore, clauses, fullText } = contract.analysis;
+    const { summary, overallRisk, riskScore, modelRating, clauses, fullText, keyFacts, sourceLanguage, outputLanguage, contractType, missingProtections, confidence } = contract.analysis;
     const doc = new jsPDF();
     
     // PDF Config
@@ -91,15 +157,18 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
     let y = 20;
     
     // Helper to add text with auto-paging
-    const addText = (text: string, fontSize: number, isBold: boolean = false, color: [number, number, number] = [60, 60, 60]) => {
+    const addText = (text: string, fontSize: number, isBold: boolean = false, color: [number, number, number] = [60, 60, 60], isItalic: boolean = false, isStruck: boolean = false) => {
         doc.setFontSize(fontSize);
-        doc.setFont("helvetica", isBold ? "bold" : "normal");
+        doc.setFont("helvetica", isBold ? "bold" : isItalic ? "italic" : "normal");
         doc.setTextColor(color[0], color[1], color[2]);
         
-        // Clean text to avoid PDF errors
-        const cleanText = text.replace(/[^\x00-\x7F]/g, ""); // Basic ASCII check/strip for this demo
-        
-        const lines = doc.splitTextToSize(cleanText, maxLineWidth);
+        // Scripts outside the built-in fonts (Cyrillic, CJK, Arabic...) are drawn via canvas
+        const standardText = toStandardText(text);
+        const shaped = needsShaping(standardText);
+        const font = { sizePt: fontSize, bold: isBold, italic: isItalic, strike: isStruck, color };
+        const lines: string[] = shaped
+            ? wrapShapedText(text, font, maxLineWidth)
+            : doc.splitTextToSize(standardText, maxLineWidth);
         const lineHeight = fontSize * 0.45; // mm approx
         
         lines.forEach((line: string) => {
@@ -107,7 +176,16 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
                 doc.addPage();
                 y = margin;
             }
-            doc.text(line, margin, y);
+            if (shaped) {
+                drawShapedLine(doc, line, font, margin, y, maxLineWidth, lineHeight + 1.5);
+            } else {
+                doc.text(line, margin, y);
+                if (isStruck && line) {
+                    doc.setDrawColor(color[0], color[1], color[2]);
+                    doc.setLineWidth(fontSize * 0.02);
+                    doc.line(margin, y - fontSize * 0.12, margin + doc.getTextWidth(line), y - fontSize * 0.12);
+                }
+            }
             y += lineHeight + 1.5; // line spacing
         });
         y += 2; // Paragraph spacing
@@ -120,6 +198,12 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
     y += 5;
     addText(`File Name: ${contract.fileName}`, 10, false, [100, 116, 139]);
     addText(`Analyzed on: ${new Date(contract.uploadDate).toLocaleDateString()}`, 10, false, [100, 116, 139]);
+    if (contractType) addText(`Contract type: ${contractType}`, 10, false, [100, 116, 139]);
+    if (sourceLanguage) addText(`Document language: ${languageName(sourceLanguage)}`, 10, false, [100, 116, 139]);
+    if (contract.analysis.textExtraction) {
+        addText(`Document text: ${describeTextExtraction(contract.analysis.textExtraction, contract.analysis.ocrPages)}`, 10, false, [100, 116, 139]);
+    }
+    addText(`Explanations in: ${languageName(outputLanguage)}`, 10, false, [100, 116, 139]);
     y += 10;
 
     // Executive Summary
@@ -133,8 +217,32 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
     y += 2;
     addText(`Overall Risk: ${overallRisk}`, 11, true);
     addText(`Risk Score: ${riskScore}/100`, 11, true);
+    if (modelRating) addText(`Adjusted after review; the AI rated it ${modelRating.overallRisk} Risk, ${modelRating.riskScore ?? '-'}/100`, 10, false, [100, 116, 139]);
+    if (confidence !== undefined) addText(`Confidence: ${Math.round(confidence * 100)}%`, 10, false, confidence < LOW_CONFIDENCE ? [217, 119, 6] : [100, 116, 139]);
+    if (missingProtections && missingProtections.length > 0) {
+        y += 4;
+        addText(`Missing Protections (${contractType} checklist)`, 11, true, [30, 41, 59]);
+        missingProtections.forEach(missing => {
+            addText(`- ${missing.label} (${missing.importance}, +${missing.riskPoints}): ${missing.description}`, 9, false, missing.importance === 'essential' ? [220, 38, 38] : [100, 116, 139]);
+        });
+    }
     y += 8;
 
+    // Key Facts
+    if (keyFacts && hasKeyFacts(keyFacts)) {
+        addText("Key Facts", 14, true, [30, 41, 59]);
+        y += 2;
+        KEY_FACT_FIELDS.forEach(({ key, label }) => {
+            const facts = factsFor(keyFacts, key);
+            if (facts.length === 0) return;
+            addText(`${label}: ${facts.map(fact => fact.value).join('; ')}`, 10, true);
+            facts.forEach(fact => {
+                if (fact.sourceQuote) addText(`"${fact.sourceQuote}"`, 8, false, [100, 116, 139]);
+            });
+        });
+        y += 8;
+    }
+
     // Clauses
     addText("Detailed Clause Analysis", 14, true, [30, 41, 59]);
     y += 4;
@@ -147,15 +255,28 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
         }
 
         // Clause Header
-        addText(`${index + 1}. ${clause.explanation} (${clause.riskLevel} Risk)`, 11, true, [30, 41, 59]);
+        addText(`${index + 1}. ${clause.explanation} (${clause.riskLevel} Risk, ${clauseCategory(clause)})`, 11, true, [30, 41, 59]);
         
         // Original Text (Italic)
-        doc.setFont("helvetica", "italic");
-        addText(`"${clause.text}"`, 9, false, [71, 85, 105]);
-        doc.setFont("helvetica", "normal");
+        addText(`"${clause.text}"`, 9, false, [71, 85, 105], true);
         
         // Risk Reason (Red)
         addText(`Risk Reason: ${clause.reason}`, 9, false, [220, 38, 38]);
+
+        if (clause.review) {
+            const { review } = clause;
+            const outcome = review.status === 'corrected' && review.originalRiskLevel
+                ? `Corrected from ${review.originalRiskLevel} to ${clause.riskLevel}`
+                : 'Confirmed';
+            addText(`Reviewed: ${outcome} by ${review.reviewer} on ${new Date(review.reviewedAt).toLocaleDateString()}${review.note ? ` - ${review.note}` : ''}`, 9, false, [5, 150, 105]);
+        } else if (needsReview(clause, confidence)) {
+            addText("Not yet reviewed by a person", 9, false, [217, 119, 6]);
+        }
+
+        // House rules, kept apart from the AI's judgment
+        (clause.playbookFindings || []).forEach(finding => {
+            addText(`Playbook (${finding.riskLevel}): ${finding.ruleName} - ${finding.message}`, 9, false, [79, 70, 229]);
+        });
         
         // Q&A History
         if (clause.conversationHistory && clause.conversationHistory.length > 0) {
@@ -169,6 +290,30 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
         y += 6; // Spacing between clauses
     });
 
+    // Redline: accepted rewrites, original struck through above the replacement
+    const accepted = clauses
+        .map((clause, index) => ({ clause, number: index + 1 }))
+        .filter(({ clause }) => clause.rewrite?.status === 'accepted');
+    if (accepted.length > 0) {
+        doc.addPage();
+        y = margin;
+        addText("Proposed Changes (Redline)", 14, true, [30, 41, 59]);
+        y += 4;
+        accepted.forEach(({ clause, number }) => {
+            if (y > pageHeight - 40) {
+                doc.addPage();
+                y = margin;
+            }
+            const rewrite = clause.rewrite!;
+            addText(`${number}. ${clause.explanation}`, 11, true, [30, 41, 59]);
+            addText(clause.text, 9, false, [220, 38, 38], false, true);
+            addText(rewrite.text, 9, false, [5, 150, 105]);
+            addText(`Rationale: ${rewrite.rationale}`, 8, false, [100, 116, 139]);
+            addText(`Fallback: ${rewrite.fallback}`, 8, false, [100, 116, 139]);
+            y += 6;
+        });
+    }
+
     // Full Text
     if (fullText) {
         doc.addPage();
@@ -183,21 +328,52 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
     doc.save(`${contract.fileName.replace(/\s+/g, '_')}_Analysis.pdf`);
   };
 
-  const handleClauseUpdate = (updatedClause: Clause) => {
+  // Bypasses the analysis cache; clause Q&A history and rewrites belong to the old result and are dropped
+  const handleReanalyze = async () => {
+    if (!onContractUpdate || !contract.fileData || !contract.mimeType || reanalyzing) return;
+    setReanalyzing(true);
+    setReanalyzeError(null);
+    try {
+      const analysis = applyPlaybook(await analyzeContract(contract.fileData, contract.mimeType, { forceRefresh: true }), currentPlaybook());
+      onContractUpdate({ ...contract, analysis });
+    } catch (e) {
+      const error = classifyAIError(e);
+      setReanalyzeError({ kind: error.kind, message: error.message });
+    } finally {
+      setReanalyzing(false);
+    }
+  };
+
+  const showInDocument = (clauseId: string) => {
+    setActiveTab('text');
+    setJumpTarget({ clauseId, tab: 'text' });
+  };
+
+  const showClause = (clauseId: string) => {
+    setActiveTab('analysis');
+    setCategoryFilter(null);
+    setJumpTarget({ clauseId, tab: 'analysis' });
+  };
+
+  const handleExportDeadlines = () => {
+    downloadCalendar(deadlines, contract.fileName, `${contract.fileName.replace(/\s+/g, '_')}_Deadlines.ics`);
+  };
+
+  // Findings are stored when the contract is analyzed; this picks up rules edited since then
+  const handleReapplyPlaybook = () => {
     if (!onContractUpdate || !contract.analysis) return;
+    onContractUpdate({ ...contract, analysis: applyPlaybook(contract.analysis, playbook) });
+  };
 
-    // Create a new contract object with the updated clause
-    const updatedContract: Contract = {
-        ...contract,
-        analysis: {
-            ...contract.analysis,
-            clauses: contract.analysis.clauses.map(c => 
-                c.id === updatedClause.id ? updatedClause : c
-            )
-        }
-    };
+  const handleKeyFactsChange = (keyFacts: KeyFacts) => {
+    if (!onContractUpdate || !contract.analysis) return;
+    onContractUpdate({ ...contract, analysis: { ...contract.analysis, keyFacts } });
+  };
 
-    onContractUpdate(updatedContract);
+  const handleClauseUpdate = (updatedClause: Clause) => {
+    if (!onContractUpdate || !contract.analysis) return;
+    // Also rescores the contract when a review corrected a risk level
+    onContractUpdate(updateClause(contract, updatedClause));
   };
 
   return (
@@ -247,11 +423,25 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
             <div>
                 <h1 className="text-2xl md:text-3xl font-bold text-slate-100 mb-2 tracking-tight">{contract.fileName}</h1>
+                {contractType && (
+                    <span className="inline-block mb-2 text-[10px] font-semibold uppercase tracking-wide text-slate-400 bg-slate-800 border border-slate-700 px-2 py-0.5 rounded">
+                        {contractType}
+                    </span>
+                )}
                 <div className="flex items-center gap-4 text-slate-400 text-sm">
                 <div className="flex items-center gap-2">
                     <FileText className="w-4 h-4" />
                     <span>Uploaded on {new Date(contract.uploadDate).toLocaleDateString()}</span>
                 </div>
+                {sourceLanguage && (
+                    <div className="flex items-center gap-2" title={`Explanations in ${languageName(explainedIn)}`}>
+                        <Languages className="w-4 h-4" />
+                        <span>
+                            {languageName(sourceLanguage)}
+                            {sourceLanguage !== explainedIn && <> → {languageName(explainedIn)}</>}
+                        </span>
+                    </div>
+                )}
                 
                 <div className="flex items-center gap-3">
                     {contract.fileData && (
@@ -318,6 +508,22 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
                     {/* Badge Display */}
                     <div className="animate-scale-in" style={{ animationDelay: '400ms' }}>
                         <RiskBadge level={overallRisk} size="lg" />
+                        {modelRating && (
+                            <div
+                                className="text-[10px] font-bold uppercase tracking-wide mt-1 text-center text-indigo-400"
+                                title={`The AI rated it ${modelRating.overallRisk} Risk${modelRating.riskScore !== undefined ? `, score ${modelRating.riskScore}` : ''}; reviewer corrections changed it`}
+                            >
+                                Adjusted after review
+                            </div>
+                        )}
+                        {confidence !== undefined && (
+                            <div
+                                className={`text-[10px] font-bold uppercase tracking-wide mt-1 text-center ${confidence < LOW_CONFIDENCE ? 'text-amber-400' : 'text-slate-500'}`}
+                                title="How sure the analysis is overall, e.g. lower for poor scans or unusual documents"
+                            >
+                                {Math.round(confidence * 100)}% confidence
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
@@ -334,6 +540,77 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
                     {summary}
                     </p>
                 </div>
+                {source === 'rules' && (
+                    <div className="flex items-center gap-2 text-xs text-amber-300 bg-amber-900/20 border border-amber-900/30 px-3 py-2 rounded-lg">
+                        <ListChecks className="w-4 h-4 shrink-0" />
+                        <span>Offline rule-based analysis. No AI was used, so results only reflect common keyword patterns.</span>
+                    </div>
+                )}
+                {cachedAt && (
+                    <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-800/50 border border-slate-800 px-3 py-2 rounded-lg">
+                        <Database className="w-4 h-4 shrink-0 text-indigo-400" />
+                        <span className="flex-1">
+                            Cached result: this file was already analyzed on {new Date(cachedAt).toLocaleString()} with the same model, so no new AI call was made.
+                        </span>
+                        {onContractUpdate && contract.fileData && (
+                            <button
+                                onClick={handleReanalyze}
+                                disabled={reanalyzing}
+                                className="flex items-center shrink-0 font-medium text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                            >
+                                {reanalyzing
+                                    ? <><Loader2 className="w-3 h-3 mr-1 animate-spin" /> Re-analyzing...</>
+                                    : <><RefreshCw className="w-3 h-3 mr-1" /> Re-analyze</>}
+                            </button>
+                        )}
+                    </div>
+                )}
+                {source !== 'rules' && (
+                    <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-800/50 border border-slate-800 px-3 py-2 rounded-lg">
+                        <Cpu className="w-4 h-4 shrink-0 text-indigo-400" />
+                        <span className="flex-1">
+                            {provenance ? (
+                                <>
+                                    Analyzed with <span className="font-mono text-slate-300">{provenance.model}</span> using prompt <span className="font-mono text-slate-300">{provenance.promptVersion}</span>
+                                    {typeof provenance.temperature === 'number' && <> at temperature {provenance.temperature}</>} on {new Date(provenance.createdAt).toLocaleString()}.
+                                </>
+                            ) : (
+                                <>Analyzed with an earlier prompt version. Model and prompt details were not recorded.</>
+                            )}
+                            {textExtraction && <> Document text {describeTextExtraction(textExtraction, ocrPages)}.</>}
+                            {promptOutdated && <> The current prompt is <span className="font-mono text-slate-300">{ANALYSIS_PROMPT_VERSION}</span>.</>}
+                            {languageChanged && <> Explanations are in {languageName(explainedIn)}; your profile is set to {languageName(currentOutputLanguage())}.</>}
+                        </span>
+                        {(promptOutdated || languageChanged) && onContractUpdate && contract.fileData && (
+                            <button
+                                onClick={handleReanalyze}
+                                disabled={reanalyzing}
+                                className="flex items-center shrink-0 font-medium text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                            >
+                                {reanalyzing
+                                    ? <><Loader2 className="w-3 h-3 mr-1 animate-spin" /> Re-running...</>
+                                    : <><RefreshCw className="w-3 h-3 mr-1" /> {promptOutdated ? 'Re-run with current prompt' : `Re-run in ${languageName(currentOutputLanguage())}`}</>}
+                            </button>
+                        )}
+                    </div>
+                )}
+                {reanalyzeError && (
+                    <AIErrorNotice
+                        kind={reanalyzeError.kind}
+                        message={reanalyzeError.message}
+                        onRetry={handleReanalyze}
+                        onDismiss={() => setReanalyzeError(null)}
+                        compact
+                    />
+                )}
+                {ruleBaseline && (
+                    <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-800/50 border border-slate-800 px-3 py-2 rounded-lg">
+                        <ListChecks className="w-4 h-4 shrink-0 text-indigo-400" />
+                        <span>
+                            Rule-based baseline: score {ruleBaseline.riskScore}, {ruleBaseline.overallRisk} Risk, {ruleBaseline.flaggedClauses} flagged clause{ruleBaseline.flaggedClauses === 1 ? '' : 's'}.
+                        </span>
+                    </div>
+                )}
             </div>
             <div 
                 className="bg-slate-900 rounded-xl p-4 flex flex-col items-center justify-center animate-scale-in border border-slate-800"
@@ -375,6 +652,74 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
             </div>
         </div>
 
+        <div className="animate-fade-in" style={{ animationDelay: '750ms' }}>
+            <KeyFactsPanel
+                keyFacts={contract.analysis.keyFacts}
+                onChange={onContractUpdate ? handleKeyFactsChange : undefined}
+            />
+        </div>
+
+        {deadlines.length > 0 && (
+        <div className="bg-slate-900 rounded-xl p-5 border border-slate-800 animate-fade-in" style={{ animationDelay: '775ms' }}>
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+                    <CalendarClock className="w-5 h-5 mr-2 text-indigo-500" />
+                    Deadlines
+                </h3>
+                <button
+                    onClick={handleExportDeadlines}
+                    className="flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300 bg-indigo-900/30 hover:bg-indigo-900/50 px-3 py-1.5 rounded-full border border-indigo-500/30"
+                    title="Download deadlines as a calendar file (.ics)"
+                >
+                    <CalendarPlus className="w-3.5 h-3.5 mr-1" /> Add to Calendar
+                </button>
+            </div>
+            {upcoming.length > 0 ? (
+                <DeadlineList items={upcoming} />
+            ) : (
+                <p className="text-sm text-slate-500">All deadlines found for this contract have passed.</p>
+            )}
+            <p className="text-xs text-slate-500 mt-2">Worked out from the key facts above. Check them against the contract before relying on these dates.</p>
+        </div>
+        )}
+
+        {missingProtections && (
+        <div className="bg-slate-900 rounded-xl p-5 border border-slate-800 animate-fade-in" style={{ animationDelay: '790ms' }}>
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+                    <ShieldOff className="w-5 h-5 mr-2 text-indigo-500" />
+                    Missing Protections
+                </h3>
+                {contractType && (
+                    <span className="text-xs text-slate-500">Checked against the {contractType} checklist</span>
+                )}
+            </div>
+            {missingProtections.length > 0 ? (
+                <div className="divide-y divide-slate-800">
+                    {missingProtections.map(missing => (
+                        <div key={missing.id} className="py-3 flex items-start gap-3">
+                            <span className={`mt-0.5 shrink-0 text-[10px] font-semibold uppercase tracking-wide px-2 py-0.5 rounded border ${
+                                missing.importance === 'essential'
+                                    ? 'text-red-400 bg-red-900/20 border-red-900/30'
+                                    : 'text-amber-400 bg-amber-900/20 border-amber-900/30'
+                            }`}>
+                                {missing.importance}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm font-medium text-slate-200">{missing.label}</div>
+                                <div className="text-xs text-slate-500">{missing.description}</div>
+                            </div>
+                            <span className="text-xs text-slate-500 shrink-0">+{missing.riskPoints} risk</span>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-slate-500">Every protection on the checklist was found in this document.</p>
+            )}
+            <p className="text-xs text-slate-500 mt-2">Found by searching the document text for each protection, so unusual wording can be missed. Missing protections are included in the risk score.</p>
+        </div>
+        )}
+
         {/* Clauses Section */}
         <div>
             <div 
@@ -383,18 +728,80 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
             >
             <AlertOctagon className="w-6 h-6 text-indigo-500" />
             <h2 className="text-xl font-bold text-slate-100">Risk Analysis Details</h2>
+            {playbook.length > 0 && onContractUpdate && (
+                <button
+                    onClick={handleReapplyPlaybook}
+                    className="ml-auto flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300 bg-indigo-900/30 hover:bg-indigo-900/50 px-3 py-1.5 rounded-full border border-indigo-500/30"
+                    title="Check the clauses against your current playbook rules"
+                >
+                    <BookMarked className="w-3.5 h-3.5 mr-1" /> Re-check playbook
+                </button>
+            )}
             </div>
+
+            {categoryStats.length > 0 && (
+            <div className="bg-slate-900 rounded-xl p-4 mb-6 border border-slate-800 animate-fade-in" style={{ animationDelay: '850ms' }}>
+                <h4 className="text-sm font-semibold text-slate-400 mb-2">Risk by Category</h4>
+                <div className="w-full" style={{ height: categoryStats.length * 28 + 16 }}>
+                    <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={categoryStats} layout="vertical" margin={{ left: 0, right: 16 }}>
+                        <XAxis type="number" hide allowDecimals={false} />
+                        <YAxis type="category" dataKey="category" width={140} tick={{ fontSize: 11, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                        <Tooltip
+                            cursor={{ fill: 'rgba(148, 163, 184, 0.08)' }}
+                            contentStyle={{borderRadius: '8px', border: 'none', backgroundColor: '#1e293b', color: '#f1f5f9'}}
+                            itemStyle={{fontSize: '12px'}}
+                        />
+                        <Bar dataKey="High" stackId="risk" fill="#ef4444" />
+                        <Bar dataKey="Medium" stackId="risk" fill="#f59e0b" />
+                        <Bar dataKey="Low" stackId="risk" fill="#10b981" radius={[0, 3, 3, 0]} />
+                    </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+            )}
+
+            {categoryStats.length > 1 && (
+            <div className="flex flex-wrap gap-2 mb-6">
+                <button
+                    onClick={() => setCategoryFilter(null)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                        categoryFilter === null
+                        ? 'bg-indigo-600 text-white border-indigo-500'
+                        : 'bg-slate-900 text-slate-400 border-slate-700 hover:border-indigo-500/50 hover:text-slate-200'
+                    }`}
+                >
+                    All ({clauses.length})
+                </button>
+                {categoryStats.map(({ category, total }) => (
+                    <button
+                        key={category}
+                        onClick={() => setCategoryFilter(categoryFilter === category ? null : category)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                            categoryFilter === category
+                            ? 'bg-indigo-600 text-white border-indigo-500'
+                            : 'bg-slate-900 text-slate-400 border-slate-700 hover:border-indigo-500/50 hover:text-slate-200'
+                        }`}
+                    >
+                        {category} ({total})
+                    </button>
+                ))}
+            </div>
+            )}
             
             <div className="grid gap-4 md:grid-cols-1 lg:grid-cols-2">
-            {clauses.map((clause, index) => (
+            {visibleClauses.map((clause, index) => (
                 <div 
                     key={clause.id} 
-                    className="animate-slide-up hover-lift"
+                    id={clauseCardElementId(clause.id)}
+                    className={`animate-slide-up hover-lift rounded-xl ${jumpTarget?.clauseId === clause.id ? 'ring-2 ring-indigo-400' : ''}`}
                     style={{ animationDelay: `${900 + (index * 100)}ms` }}
                 >
                     <ClauseCard 
                         clause={clause} 
                         onUpdate={handleClauseUpdate} 
+                        onLocate={isAnchored(clause) ? () => showInDocument(clause.id) : undefined}
+                        analysisConfidence={confidence}
                     />
                 </div>
             ))}
@@ -402,19 +809,37 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
         </div>
         </>
       ) : (
-        /* Text View */
+        <>
+        {/* Pages of a document combined from several files */}
+        {contract.sourcePages && contract.fileData && (
+            <div className="animate-fade-in">
+                <DocumentPages fileData={contract.fileData} sourcePages={contract.sourcePages} />
+            </div>
+        )}
+
+        {/* Text View */}
         <div className="bg-slate-900 rounded-2xl shadow-sm border border-slate-800 p-6 md:p-8 animate-fade-in">
             <div className="flex items-center justify-between mb-6">
                 <h2 className="text-2xl font-bold text-slate-100">Document Text</h2>
                 <div className="text-sm text-slate-400 bg-slate-950 px-3 py-1 rounded-full border border-slate-800">
-                    AI extracted text
+                    {source === 'rules' || textExtraction === 'text' || textExtraction === 'pdf-text' ? 'Original text' : textExtraction === 'pdf-mixed' ? 'Original text, scanned pages by AI' : 'AI extracted text'}
                 </div>
             </div>
+            {fullText && locatedCount > 0 && (
+                <p className="text-xs text-slate-500 mb-3">
+                    {locatedCount} of {clauses.length} clause{clauses.length === 1 ? '' : 's'} highlighted by risk. Click a highlighted passage to see its analysis.
+                </p>
+            )}
             
             <div className="prose prose-invert prose-slate max-w-none">
                 {fullText ? (
                     <div className="whitespace-pre-wrap font-mono text-sm leading-relaxed text-slate-300 bg-slate-950 p-6 rounded-xl border border-slate-800 h-[70vh] overflow-y-auto">
-                        {fullText}
+                        <HighlightedDocument
+                            text={fullText}
+                            clauses={anchoredClauses}
+                            activeClauseId={jumpTarget?.clauseId}
+                            onSelectClause={showClause}
+                        />
                     </div>
                 ) : (
                     <div className="flex flex-col items-center justify-center py-20 text-slate-500">
@@ -425,6 +850,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
                 )}
             </div>
         </div>
+        </>
       )}
     </div>
   );
@@ -1,7 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageCircle, X, Send, Bot, User, Minimize2, Maximize2 } from 'lucide-react';
+import { MessageCircle, X, Send, Bot, User, Minimize2, Maximize2, Square } from 'lucide-react';
 import { ChatMessage, Contract } from '../types';
-import { sendChatMessage } from '../services/geminiService';
+import { streamChatMessage } from '../services/geminiService';
+import { selectRelevantText } from '../services/documentSections';
+import { AIErrorKind, classifyAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+
+// Character budget for contract text sent with each chat message
+const CONTEXT_TEXT_BUDGET = 20000;
 
 interface ChatBotProps {
   contract: Contract | null;
@@ -19,14 +25,22 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
   ]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [failure, setFailure] = useState<{ text: string; kind: AIErrorKind; message: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Auto-scroll to bottom
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages, isOpen]);
+  }, [messages, streamingText, isOpen]);
+
+  // Cancel any in-flight response when the chat unmounts
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
 
   // Reset chat when contract changes, optionally
   useEffect(() => {
@@ -43,43 +57,77 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
     }
   }, [contract?.id]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
-
-    const userMsg: ChatMessage = {
-      role: 'user',
-      text: input,
-      timestamp: Date.now()
-    };
-
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+  const requestReply = async (text: string, history: ChatMessage[]) => {
     setIsLoading(true);
+    setFailure(null);
 
     // Prepare context
     let context = '';
     if (contract && contract.analysis) {
+        // Long contracts don't fit whole, so send the passages most related to the question
+        const fullText = contract.analysis.fullText;
+        const isExcerpt = !!fullText && fullText.length > CONTEXT_TEXT_BUDGET;
         context = `
         Filename: ${contract.fileName}
         Summary: ${contract.analysis.summary}
         Overall Risk: ${contract.analysis.overallRisk}
-        Full Text: ${contract.analysis.fullText ? contract.analysis.fullText.substring(0, 20000) : 'Not available'}
+        ${isExcerpt ? 'Relevant Excerpts (the document is longer; omitted parts are marked [...])' : 'Full Text'}: ${fullText ? selectRelevantText(fullText, text, CONTEXT_TEXT_BUDGET) : 'Not available'}
         `;
     }
 
-    // Filter history for API (last 10 messages to save tokens/context)
-    const historyForApi = messages.slice(-10);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-    const responseText = await sendChatMessage(historyForApi, userMsg.text, context);
+    try {
+      // Filter history for API (last 10 messages to save tokens/context)
+      const result = await streamChatMessage(history.slice(-10), text, context, {
+        signal: controller.signal,
+        onChunk: setStreamingText,
+      });
 
-    const botMsg: ChatMessage = {
-      role: 'model',
-      text: responseText,
+      // Keep partial answers; only drop a response that was stopped before any text arrived
+      if (result.text) {
+        const botMsg: ChatMessage = {
+          role: 'model',
+          text: result.text,
+          timestamp: Date.now(),
+          status: result.status
+        };
+        setMessages(prev => [...prev, botMsg]);
+      }
+    } catch (e) {
+      const error = classifyAIError(e);
+      setFailure({ text, kind: error.kind, message: error.message });
+    } finally {
+      abortRef.current = null;
+      setStreamingText('');
+      setIsLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || isLoading) return;
+
+    const userMsg: ChatMessage = {
+      role: 'user',
+      text: input,
       timestamp: Date.now()
     };
 
-    setMessages(prev => [...prev, botMsg]);
-    setIsLoading(false);
+    const history = messages;
+    setMessages(prev => [...prev, userMsg]);
+    setInput('');
+    await requestReply(userMsg.text, history);
+  };
+
+  // The failed question is already in the list, so resend it against the history before it
+  const handleRetry = () => {
+    if (!failure || isLoading) return;
+    requestReply(failure.text, messages.slice(0, -1));
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
   };
 
   const toggleOpen = () => {
@@ -141,11 +189,25 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
                       : 'bg-slate-800 border border-slate-700 text-slate-200 rounded-tl-none shadow-sm'
                   }`}
                 >
-                  {msg.text}
+                  <span className="whitespace-pre-wrap">{msg.text}</span>
+                  {msg.status === 'stopped' && (
+                    <div className="mt-1 text-[10px] uppercase tracking-wide text-slate-500">Stopped</div>
+                  )}
+                  {msg.status === 'failed' && (
+                    <div className="mt-1 text-[10px] uppercase tracking-wide text-amber-400">Connection interrupted</div>
+                  )}
                 </div>
               </div>
             ))}
-            {isLoading && (
+            {isLoading && streamingText && (
+              <div className="flex justify-start">
+                <div className="max-w-[80%] rounded-2xl px-4 py-2.5 text-sm bg-slate-800 border border-slate-700 text-slate-200 rounded-tl-none shadow-sm">
+                  <span className="whitespace-pre-wrap">{streamingText}</span>
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-indigo-400 animate-pulse"></span>
+                </div>
+              </div>
+            )}
+            {isLoading && !streamingText && (
                <div className="flex justify-start">
                   <div className="bg-slate-800 border border-slate-700 rounded-2xl rounded-tl-none px-4 py-3 shadow-sm flex space-x-1">
                     <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce"></div>
@@ -154,6 +216,15 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
                   </div>
                </div>
             )}
+            {failure && !isLoading && (
+              <AIErrorNotice
+                kind={failure.kind}
+                message={failure.message}
+                onRetry={handleRetry}
+                onDismiss={() => setFailure(null)}
+                compact
+              />
+            )}
             <div ref={messagesEndRef} />
           </div>
 
@@ -168,13 +239,23 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
                 placeholder="Ask a legal question..."
                 className="flex-1 px-4 py-2 bg-slate-950 text-slate-100 border border-slate-700 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent placeholder-slate-500"
               />
-              <button
-                onClick={handleSend}
-                disabled={!input.trim() || isLoading}
-                className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                <Send className="w-4 h-4" />
-              </button>
+              {isLoading ? (
+                <button
+                  onClick={handleStop}
+                  className="p-2 bg-slate-700 text-white rounded-full hover:bg-slate-600 transition-colors"
+                  title="Stop generating"
+                >
+                  <Square className="w-4 h-4" fill="currentColor" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!input.trim()}
+                  className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
             </div>
           </div>
         </>
@@ -1,18 +1,39 @@
-import React, { useState } from 'react';
-import { Clause, RiskLevel } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Clause, QAPair, RiskLevel } from '../types';
 import { RiskBadge } from './RiskBadge';
-import { AlertTriangle, HelpCircle, MessageCircle, ChevronDown, ChevronUp, User, Scale } from 'lucide-react';
-import { askClauseQuestion } from '../services/geminiService';
+import { AlertTriangle, HelpCircle, MessageCircle, ChevronDown, ChevronUp, User, Scale, Square, MapPin, BookMarked, UserCheck, Gauge } from 'lucide-react';
+import { streamClauseQuestion } from '../services/geminiService';
+import { AIErrorKind, classifyAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+import { ClauseRewritePanel } from './ClauseRewritePanel';
+import { clauseCategory } from '../services/riskCategories';
+import { playbookRiskLevel } from '../services/playbook';
+import { clauseConfidence, LOW_CONFIDENCE, needsReview, REVIEW_REASON_LABELS, reviewReasons } from '../services/reviewQueue';
+import { ReviewControls } from './ReviewControls';
 
 interface ClauseCardProps {
   clause: Clause;
   onUpdate?: (updatedClause: Clause) => void;
+  onLocate?: () => void; // Shows the clause in the document text; only set when its position is known
+  analysisConfidence?: number;
 }
 
-export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
+export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate, onLocate, analysisConfidence }) => {
   const [expanded, setExpanded] = useState(false);
+  const playbookLevel = playbookRiskLevel(clause);
+  const confidence = clauseConfidence(clause, analysisConfidence);
+  const flagged = needsReview(clause, analysisConfidence);
   const [question, setQuestion] = useState('');
   const [loadingAnswer, setLoadingAnswer] = useState(false);
+  const [pendingQuestion, setPendingQuestion] = useState('');
+  const [streamingAnswer, setStreamingAnswer] = useState('');
+  const [failure, setFailure] = useState<{ question: string; kind: AIErrorKind; message: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel any in-flight answer when the card unmounts
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
 
   // Helper to highlight keywords
   const getHighlightedText = (text: string, highlights: string[]) => {
@@ -41,21 +62,40 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
      }
   };
 
-  const handleAsk = async () => {
-    if (!question.trim()) return;
+  const askQuestion = async (currentQuestion: string) => {
     setLoadingAnswer(true);
-    
-    const currentQuestion = question;
-    const result = await askClauseQuestion(clause.text, currentQuestion);
-    
-    setLoadingAnswer(false);
-    setQuestion('');
+    setFailure(null);
+    setPendingQuestion(currentQuestion);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let result;
+    try {
+      result = await streamClauseQuestion(clause.text, currentQuestion, {
+          signal: controller.signal,
+          onChunk: setStreamingAnswer,
+      });
+    } catch (e) {
+      const error = classifyAIError(e);
+      setFailure({ question: currentQuestion, kind: error.kind, message: error.message });
+      return;
+    } finally {
+      abortRef.current = null;
+      setLoadingAnswer(false);
+      setPendingQuestion('');
+      setStreamingAnswer('');
+    }
+
+    // Nothing worth keeping if the user stopped before any text arrived
+    if (!result.text) return;
 
     if (onUpdate) {
-        const newHistoryItem = {
+        const newHistoryItem: QAPair = {
             question: currentQuestion,
-            answer: result,
-            timestamp: Date.now()
+            answer: result.text,
+            timestamp: Date.now(),
+            status: result.status
         };
 
         const updatedClause = {
@@ -67,6 +107,38 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
     }
   };
 
+  const handleAsk = () => {
+    if (!question.trim() || loadingAnswer) return;
+    const currentQuestion = question;
+    setQuestion('');
+    askQuestion(currentQuestion);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const renderExchange = (questionText: string, answer: React.ReactNode, key?: React.Key) => (
+    <div key={key} className="space-y-1">
+        <div className="flex items-start gap-2 justify-end">
+            <div className="bg-indigo-900/50 text-indigo-200 px-3 py-2 rounded-lg rounded-tr-none text-sm max-w-[85%] border border-indigo-500/20">
+                {questionText}
+            </div>
+            <div className="w-6 h-6 rounded-full bg-slate-800 flex items-center justify-center flex-shrink-0">
+               <User className="w-3 h-3 text-slate-400" />
+            </div>
+        </div>
+        <div className="flex items-start gap-2">
+            <div className="w-6 h-6 rounded-full bg-indigo-600 flex items-center justify-center flex-shrink-0">
+               <MessageCircle className="w-3 h-3 text-white" />
+            </div>
+            <div className="bg-slate-800 text-slate-300 px-3 py-2 rounded-lg rounded-tl-none text-sm max-w-[85%] border border-slate-700 whitespace-pre-wrap">
+                {answer}
+            </div>
+        </div>
+    </div>
+  );
+
   return (
     <div className={`bg-slate-900 rounded-xl shadow-sm border transition-all duration-200 ${expanded ? 'ring-2 ring-indigo-500/20 border-indigo-500/30' : 'border-slate-800 hover:border-indigo-500/50'}`}>
       <div 
@@ -75,8 +147,55 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
       >
         <div className="flex-1">
           <div className="flex items-center justify-between mb-2">
-            <RiskBadge level={clause.riskLevel} size="sm" />
-            <div className="text-slate-500">
+            <div className="flex items-center gap-2">
+              <RiskBadge level={clause.riskLevel} size="sm" />
+              <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400 bg-slate-800 border border-slate-700 px-2 py-0.5 rounded">
+                {clauseCategory(clause)}
+              </span>
+              {playbookLevel && (
+                <span
+                  className="flex items-center text-[10px] font-semibold uppercase tracking-wide text-indigo-300 bg-indigo-900/30 border border-indigo-500/30 px-2 py-0.5 rounded"
+                  title="A playbook rule matched this clause"
+                >
+                  <BookMarked className="w-3 h-3 mr-1" /> Playbook: {playbookLevel}
+                </span>
+              )}
+              {clause.rewrite?.status === 'accepted' && (
+                <span className="text-[10px] font-semibold uppercase tracking-wide text-emerald-400 bg-emerald-900/20 border border-emerald-900/30 px-2 py-0.5 rounded">
+                  Rewrite accepted
+                </span>
+              )}
+              {flagged && (
+                <span className="flex items-center text-[10px] font-semibold uppercase tracking-wide text-amber-400 bg-amber-900/20 border border-amber-900/30 px-2 py-0.5 rounded">
+                  <UserCheck className="w-3 h-3 mr-1" /> Needs review
+                </span>
+              )}
+              {clause.review && (
+                <span className="flex items-center text-[10px] font-semibold uppercase tracking-wide text-emerald-400 bg-emerald-900/20 border border-emerald-900/30 px-2 py-0.5 rounded">
+                  <UserCheck className="w-3 h-3 mr-1" /> Reviewed
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-3 text-slate-500">
+               {confidence !== undefined && (
+                 <span
+                   className={`flex items-center text-xs ${confidence < LOW_CONFIDENCE ? 'text-amber-400' : 'text-slate-500'}`}
+                   title="How sure the analysis is about this clause"
+                 >
+                   <Gauge className="w-3.5 h-3.5 mr-1" />
+                   {Math.round(confidence * 100)}% confident
+                 </span>
+               )}
+               {onLocate && (
+                 <button
+                   onClick={(e) => { e.stopPropagation(); onLocate(); }}
+                   className="flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300"
+                   title="Show in document text"
+                 >
+                   <MapPin className="w-3.5 h-3.5 mr-1" />
+                   {clause.page ? `Page ${clause.page}` : 'Show in document'}
+                 </button>
+               )}
                {expanded ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
             </div>
           </div>
@@ -114,6 +233,48 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
              </div>
           </div>
 
+          {clause.playbookFindings && clause.playbookFindings.length > 0 && (
+            <div className="mb-6 -mt-3 bg-indigo-950/30 p-3 rounded-lg border border-indigo-500/20">
+              <h5 className="font-semibold text-sm text-slate-200 flex items-center mb-2">
+                <BookMarked className="w-4 h-4 mr-2 text-indigo-400" />
+                Your Playbook
+              </h5>
+              <ul className="space-y-2">
+                {clause.playbookFindings.map(finding => (
+                  <li key={finding.ruleId} className="flex items-start gap-2">
+                    <RiskBadge level={finding.riskLevel} size="sm" />
+                    <div className="text-sm">
+                      <span className="font-medium text-slate-200">{finding.ruleName}</span>
+                      <span className="text-slate-400">: {finding.message}</span>
+                      {finding.matched.length > 0 && (
+                        <span className="block text-xs text-slate-500 mt-0.5">Matched: {finding.matched.join(', ')}</span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {onUpdate && (flagged || clause.review) && (
+            <div className="mb-6 -mt-3 bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-2">
+              <h5 className="font-semibold text-sm text-slate-200 flex items-center">
+                <UserCheck className="w-4 h-4 mr-2 text-amber-400" />
+                Human Review
+                {flagged && (
+                  <span className="ml-2 text-xs font-normal text-slate-400">
+                    {reviewReasons(clause, analysisConfidence).map(reason => REVIEW_REASON_LABELS[reason]).join(' · ')}
+                  </span>
+                )}
+              </h5>
+              <ReviewControls clause={clause} onUpdate={onUpdate} />
+            </div>
+          )}
+
+          {clause.riskLevel !== RiskLevel.LOW && onUpdate && (
+            <ClauseRewritePanel clause={clause} onUpdate={onUpdate} />
+          )}
+
           {/* Q&A Section */}
           <div className="bg-slate-900 p-4 rounded-lg border border-slate-800">
             <h5 className="text-sm font-semibold text-slate-200 mb-3 flex items-center">
@@ -122,31 +283,43 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
             </h5>
             
             {/* History */}
-            {clause.conversationHistory && clause.conversationHistory.length > 0 && (
+            {((clause.conversationHistory && clause.conversationHistory.length > 0) || pendingQuestion) && (
                 <div className="space-y-3 mb-4 max-h-60 overflow-y-auto">
-                    {clause.conversationHistory.map((item, idx) => (
-                        <div key={idx} className="space-y-1">
-                            <div className="flex items-start gap-2 justify-end">
-                                <div className="bg-indigo-900/50 text-indigo-200 px-3 py-2 rounded-lg rounded-tr-none text-sm max-w-[85%] border border-indigo-500/20">
-                                    {item.question}
-                                </div>
-                                <div className="w-6 h-6 rounded-full bg-slate-800 flex items-center justify-center flex-shrink-0">
-                                   <User className="w-3 h-3 text-slate-400" />
-                                </div>
-                            </div>
-                            <div className="flex items-start gap-2">
-                                <div className="w-6 h-6 rounded-full bg-indigo-600 flex items-center justify-center flex-shrink-0">
-                                   <MessageCircle className="w-3 h-3 text-white" />
-                                </div>
-                                <div className="bg-slate-800 text-slate-300 px-3 py-2 rounded-lg rounded-tl-none text-sm max-w-[85%] border border-slate-700">
-                                    {item.answer}
-                                </div>
-                            </div>
-                        </div>
+                    {(clause.conversationHistory || []).map((item, idx) => renderExchange(
+                        item.question,
+                        <>
+                            {item.answer}
+                            {item.status === 'stopped' && (
+                                <span className="block mt-1 text-[10px] uppercase tracking-wide text-slate-500">Stopped</span>
+                            )}
+                            {item.status === 'failed' && (
+                                <span className="block mt-1 text-[10px] uppercase tracking-wide text-amber-400">Connection interrupted</span>
+                            )}
+                        </>,
+                        idx
                     ))}
+                    {pendingQuestion && renderExchange(
+                        pendingQuestion,
+                        <>
+                            {streamingAnswer}
+                            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-indigo-400 animate-pulse"></span>
+                        </>
+                    )}
                 </div>
             )}
 
+            {failure && !loadingAnswer && (
+              <div className="mb-3">
+                <AIErrorNotice
+                  kind={failure.kind}
+                  message={failure.message}
+                  onRetry={() => askQuestion(failure.question)}
+                  onDismiss={() => setFailure(null)}
+                  compact
+                />
+              </div>
+            )}
+
             <div className="flex gap-2">
               <input 
                 type="text" 
@@ -156,16 +329,26 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
                 className="flex-1 text-sm px-3 py-2 bg-slate-950 text-slate-100 border border-slate-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none placeholder-slate-500"
                 onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
               />
-              <button 
-                onClick={handleAsk}
-                disabled={loadingAnswer || !question.trim()}
-                className="bg-indigo-600 text-white p-2 rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors"
-              >
-                <MessageCircle className="w-4 h-4" />
-              </button>
+              {loadingAnswer ? (
+                <button 
+                  onClick={handleStop}
+                  className="bg-slate-700 text-white p-2 rounded-md hover:bg-slate-600 transition-colors"
+                  title="Stop generating"
+                >
+                  <Square className="w-4 h-4" fill="currentColor" />
+                </button>
+              ) : (
+                <button 
+                  onClick={handleAsk}
+                  disabled={!question.trim()}
+                  className="bg-indigo-600 text-white p-2 rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                >
+                  <MessageCircle className="w-4 h-4" />
+                </button>
+              )}
             </div>
 
-            {loadingAnswer && (
+            {loadingAnswer && !streamingAnswer && (
               <p className="text-xs text-slate-500 mt-2 animate-pulse flex items-center">
                  <span className="w-2 h-2 bg-indigo-500 rounded-full mr-1 animate-bounce"></span>
                  <span className="w-2 h-2 bg-indigo-500 rounded-full mr-1 animate-bounce" style={{animationDelay: '0.1s'}}></span>
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Wand2, Check, Pencil, Trash2, Loader2, Save, X, RefreshCw } from 'lucide-react';
+import { Clause, ClauseRewrite } from '../types';
+import { suggestClauseRewrite } from '../services/geminiService';
+import { AIErrorKind, classifyAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+
+interface ClauseRewritePanelProps {
+  clause: Clause;
+  onUpdate: (updatedClause: Clause) => void;
+}
+
+export const ClauseRewritePanel: React.FC<ClauseRewritePanelProps> = ({ clause, onUpdate }) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<{ kind: AIErrorKind; message: string } | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const rewrite = clause.rewrite;
+
+  const setRewrite = (next: ClauseRewrite | undefined) => onUpdate({ ...clause, rewrite: next });
+
+  const handleSuggest = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRewrite(await suggestClauseRewrite(clause));
+      setEditing(false);
+    } catch (e) {
+      const failure = classifyAIError(e);
+      setError({ kind: failure.kind, message: failure.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = () => {
+    if (!rewrite) return;
+    setDraft(rewrite.text);
+    setEditing(true);
+  };
+
+  // Saving an edit counts as accepting the wording
+  const handleSaveEdit = () => {
+    if (!rewrite || !draft.trim()) return;
+    const text = draft.trim();
+    setRewrite({ ...rewrite, text, status: 'accepted', edited: rewrite.edited || text !== rewrite.text });
+    setEditing(false);
+  };
+
+  const actionClass = "flex items-center text-xs font-medium px-2 py-1 rounded-md transition-colors disabled:opacity-50";
+
+  return (
+    <div className="mb-6 bg-slate-900 p-4 rounded-lg border border-slate-800">
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="text-sm font-semibold text-slate-200 flex items-center">
+          <Wand2 className="w-4 h-4 mr-2 text-indigo-500" />
+          Suggested Alternative
+          {rewrite?.status === 'accepted' && (
+            <span className="ml-2 text-[10px] uppercase tracking-wide text-emerald-400 bg-emerald-900/20 border border-emerald-900/30 px-1.5 py-0.5 rounded">
+              Accepted{rewrite.edited ? ' · Edited' : ''}
+            </span>
+          )}
+        </h5>
+        {rewrite && !editing && (
+          <div className="flex items-center gap-1">
+            {rewrite.status === 'suggested' && (
+              <button onClick={() => setRewrite({ ...rewrite, status: 'accepted' })} className={`${actionClass} text-emerald-400 hover:bg-emerald-900/20`}>
+                <Check className="w-3.5 h-3.5 mr-1" /> Accept
+              </button>
+            )}
+            <button onClick={startEditing} className={`${actionClass} text-indigo-400 hover:bg-indigo-900/20`}>
+              <Pencil className="w-3.5 h-3.5 mr-1" /> Edit
+            </button>
+            <button onClick={() => setRewrite(undefined)} className={`${actionClass} text-slate-400 hover:text-red-400 hover:bg-red-900/20`}>
+              <Trash2 className="w-3.5 h-3.5 mr-1" /> Discard
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!rewrite ? (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-slate-500">Get fairer replacement wording and points to raise when negotiating.</p>
+          <button
+            onClick={handleSuggest}
+            disabled={loading}
+            className="flex items-center shrink-0 text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 px-3 py-1.5 rounded-lg disabled:opacity-50"
+          >
+            {loading
+              ? <><Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> Suggesting...</>
+              : <><Wand2 className="w-3.5 h-3.5 mr-1" /> Suggest alternative</>}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {editing ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={5}
+                className="w-full px-3 py-2 bg-slate-950 text-slate-100 border border-slate-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm leading-relaxed"
+              />
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setEditing(false)} className={`${actionClass} text-slate-400 hover:text-slate-200`}>
+                  <X className="w-3.5 h-3.5 mr-1" /> Cancel
+                </button>
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={!draft.trim()}
+                  className={`${actionClass} bg-indigo-600 text-white hover:bg-indigo-700 px-3 py-1.5`}
+                >
+                  <Save className="w-3.5 h-3.5 mr-1" /> Save & accept
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="p-4 rounded-lg border text-sm leading-relaxed text-slate-200 bg-emerald-950/20 border-emerald-900/30 whitespace-pre-wrap">
+              {rewrite.text}
+            </div>
+          )}
+          <div>
+            <h6 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-1">Why they should agree</h6>
+            <p className="text-sm text-slate-400">{rewrite.rationale}</p>
+          </div>
+          <div>
+            <h6 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-1">Fallback position</h6>
+            <p className="text-sm text-slate-400">{rewrite.fallback}</p>
+          </div>
+          {rewrite.status === 'suggested' && !editing && (
+            <button
+              onClick={handleSuggest}
+              disabled={loading}
+              className="flex items-center text-xs font-medium text-slate-400 hover:text-indigo-300 disabled:opacity-50"
+            >
+              {loading
+                ? <><Loader2 className="w-3 h-3 mr-1 animate-spin" /> Suggesting...</>
+                : <><RefreshCw className="w-3 h-3 mr-1" /> Suggest another</>}
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && !loading && (
+        <div className="mt-3">
+          <AIErrorNotice
+            kind={error.kind}
+            message={error.message}
+            onRetry={handleSuggest}
+            onDismiss={() => setError(null)}
+            compact
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,14 @@ import { Contract, ComparisonResult, ChatMessage } from '../types';
 import { compareContracts, queryComparisonDifference } from '../services/geminiService';
 import { ArrowLeft, Trophy, AlertTriangle, ShieldCheck, Scale, Sparkles, Loader2, MessageCircle, X, Send, Bot, User } from 'lucide-react';
 import { RiskBadge } from './RiskBadge';
+import { AIErrorKind, classifyAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
+import { contractTypesOf } from '../services/contractTypes';
+
+interface FailedRequest {
+  kind: AIErrorKind;
+  message: string;
+}
 
 interface CompareViewProps {
   contracts: Contract[];
@@ -13,18 +21,24 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
   const [comparison, setComparison] = useState<ComparisonResult | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeDifference, setActiveDifference] = useState<string | null>(null);
+  const [failure, setFailure] = useState<FailedRequest | null>(null);
+
+  const fetchComparison = async () => {
+    setLoading(true);
+    setFailure(null);
+    try {
+      const result = await compareContracts(contracts);
+      setComparison(result);
+    } catch (e) {
+      console.error("Comparison failed", e);
+      const error = classifyAIError(e);
+      setFailure({ kind: error.kind, message: error.message });
+    } finally {
+      setLoading(false);
+    }
+  };
 
   useEffect(() => {
-    const fetchComparison = async () => {
-      try {
-        const result = await compareContracts(contracts);
-        setComparison(result);
-      } catch (e) {
-        console.error("Comparison failed", e);
-      } finally {
-        setLoading(false);
-      }
-    };
     if (contracts.length > 0) {
         fetchComparison();
     }
@@ -45,9 +59,21 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
       );
   }
 
-  if (!comparison) return <div>Failed to load comparison.</div>;
+  if (!comparison) {
+      return (
+          <div className="max-w-xl mx-auto mt-16 animate-fade-in">
+              <AIErrorNotice
+                kind={failure?.kind || 'unknown'}
+                message={failure?.message || 'Failed to load comparison.'}
+                onRetry={fetchComparison}
+                actions={[{ label: 'Back to Dashboard', onClick: onBack }]}
+              />
+          </div>
+      );
+  }
 
   const winner = contracts.find(c => c.id === comparison.recommendedId) || contracts[0];
+  const contractTypes = contractTypesOf(contracts);
 
   return (
     <div className="space-y-8 animate-slide-up relative">
@@ -58,6 +84,16 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
         <ArrowLeft className="w-4 h-4 mr-1" /> Back to Dashboard
       </button>
 
+      {contractTypes.length > 1 && (
+        <div className="flex items-start gap-3 bg-amber-900/20 border border-amber-900/30 text-amber-300 text-sm px-4 py-3 rounded-xl">
+            <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+            <span>
+                These are different kinds of contract ({contractTypes.join(', ')}). Their risk scores use different rubrics,
+                so the recommendation is less meaningful than when comparing contracts of the same type.
+            </span>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Header / Winner Section */}
         <div className="lg:col-span-3 bg-gradient-to-r from-indigo-800 to-indigo-900 rounded-2xl p-8 text-white shadow-xl relative overflow-hidden border border-indigo-700/50">
@@ -75,6 +111,11 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
                 <p className="text-indigo-100 text-lg max-w-2xl leading-relaxed">
                     {comparison.reasoning}
                 </p>
+                {comparison.provenance && (
+                    <p className="text-xs text-indigo-300/70 mt-4">
+                        Compared with <span className="font-mono">{comparison.provenance.model}</span> using prompt <span className="font-mono">{comparison.provenance.promptVersion}</span> on {new Date(comparison.provenance.createdAt).toLocaleString()}.
+                    </p>
+                )}
             </div>
         </div>
 
@@ -183,6 +224,7 @@ const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, c
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [failure, setFailure] = useState<(FailedRequest & { history: ChatMessage[]; question: string }) | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const hasFetchedBrief = useRef(false);
 
@@ -191,29 +233,26 @@ const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, c
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages, isLoading]);
 
+    const askDifference = async (history: ChatMessage[], question: string) => {
+        setIsLoading(true);
+        setFailure(null);
+        try {
+            const response = await queryComparisonDifference(history, question, contracts, difference);
+            setMessages(prev => [...prev, { role: 'model', text: response, timestamp: Date.now() }]);
+        } catch (e) {
+            const error = classifyAIError(e);
+            setFailure({ kind: error.kind, message: error.message, history, question });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
     // Initial Briefing
     useEffect(() => {
         if (!hasFetchedBrief.current) {
             hasFetchedBrief.current = true;
-            setIsLoading(true);
-            
             // Initial phantom call to get the briefing
-            queryComparisonDifference([], "Please brief me on this difference and what it means for me in simple terms.", contracts, difference)
-                .then(response => {
-                    setMessages([{
-                        role: 'model',
-                        text: response,
-                        timestamp: Date.now()
-                    }]);
-                })
-                .catch(err => {
-                    setMessages([{
-                        role: 'model',
-                        text: "Sorry, I couldn't generate the briefing right now.",
-                        timestamp: Date.now()
-                    }]);
-                })
-                .finally(() => setIsLoading(false));
+            askDifference([], "Please brief me on this difference and what it means for me in simple terms.");
         }
     }, [difference, contracts]);
 
@@ -221,14 +260,10 @@ const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, c
         if (!input.trim() || isLoading) return;
 
         const userMsg: ChatMessage = { role: 'user', text: input, timestamp: Date.now() };
+        const history = messages;
         setMessages(prev => [...prev, userMsg]);
         setInput('');
-        setIsLoading(true);
-
-        const response = await queryComparisonDifference(messages, input, contracts, difference);
-        
-        setMessages(prev => [...prev, { role: 'model', text: response, timestamp: Date.now() }]);
-        setIsLoading(false);
+        await askDifference(history, userMsg.text);
     };
 
     return (
@@ -292,6 +327,15 @@ const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, c
                             </div>
                         </div>
                     )}
+                    {failure && !isLoading && (
+                        <AIErrorNotice
+                            kind={failure.kind}
+                            message={failure.message}
+                            onRetry={() => askDifference(failure.history, failure.question)}
+                            onDismiss={() => setFailure(null)}
+                            compact
+                        />
+                    )}
                     <div ref={messagesEndRef} />
                 </div>
 
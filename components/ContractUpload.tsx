@@ -1,11 +1,66 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, File as FileIcon, Loader2, AlertCircle, Trash2, Play, Sparkles, CheckCircle, ArrowRight, RefreshCw } from 'lucide-react';
-import { analyzeContract } from '../services/geminiService';
-import { storageService } from '../services/storageService';
-import { Contract, User, RecentAnalysis } from '../types';
+import React, { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { Upload, File as FileIcon, Loader2, AlertCircle, Trash2, Sparkles, CheckCircle, ArrowRight, RefreshCw, Database, ClipboardPaste, Plus, Layers, Square, CheckSquare, Ungroup, Clock, X, Pause, Play, Ban, ListChecks } from 'lucide-react';
+import { AIErrorNotice } from './AIErrorNotice';
+import { formatCost, getBudgetStatus } from '../services/usageService';
+import { DOCX_MIME_TYPE, documentMimeType } from '../services/documentText';
+import { COMBINABLE_TYPES, CombinedPart } from '../services/combineDocuments';
+import { MAX_CONCURRENCY, UploadJob, estimateRemainingMs, summarizeBatch, uploadQueue } from '../services/uploadQueue';
+import { ANALYSIS_STAGES, ANALYSIS_STAGE_LABELS } from '../services/geminiService';
+import { PageOrderStrip } from './PageOrderStrip';
+import { Contract, RiskLevel, User } from '../types';
 
-// Simple ID generator
-const generateId = () => Math.random().toString(36).substring(2, 15);
+const VALID_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', DOCX_MIME_TYPE, 'text/plain', 'text/markdown'];
+const ACCEPT = '.pdf,image/*,.docx,.txt,.md';
+
+const combinedName = (files: File[]) => `${files[0].name.replace(/\.[^.]+$/, '')} (combined).pdf`;
+
+// Each file once, however many of its pages are in the combination
+const partFiles = (parts: CombinedPart[]) => Array.from(new Set(parts.map(part => part.file)));
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  next.splice(to, 0, ...next.splice(from, 1));
+  return next;
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// Stage, section and timing of a file being analyzed
+const JobProgress: React.FC<{ job: UploadJob; jobs: UploadJob[]; now: number }> = ({ job, jobs, now }) => {
+  const { progress, startedAt } = job;
+  const stageIndex = progress ? ANALYSIS_STAGES.indexOf(progress.stage) : -1;
+  const remaining = estimateRemainingMs(job, jobs, now);
+
+  return (
+    <div className="flex flex-col items-end text-indigo-400 text-sm font-medium">
+      <div className="flex items-center">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        {progress ? ANALYSIS_STAGE_LABELS[progress.stage] : 'Starting...'}
+      </div>
+      <div className="flex gap-1 mt-1.5" title={ANALYSIS_STAGES.map(stage => ANALYSIS_STAGE_LABELS[stage]).join(' → ')}>
+        {ANALYSIS_STAGES.map((stage, i) => (
+          <span
+            key={stage}
+            className={`h-1 w-4 rounded-full ${i < stageIndex ? 'bg-indigo-500' : i === stageIndex ? 'bg-indigo-400 animate-pulse' : 'bg-slate-700'}`}
+          />
+        ))}
+      </div>
+      {progress && progress.totalSections > 1 && (
+        <div className="text-[10px] text-slate-500 mt-1">
+          Section {progress.section} of {progress.totalSections}{progress.label ? ` · ${progress.label}` : ''}
+        </div>
+      )}
+      {startedAt && (
+        <div className="text-[10px] text-slate-500 mt-0.5">
+          {formatDuration(now - startedAt)} elapsed{remaining !== null ? ` · about ${formatDuration(remaining)} left` : ''}
+        </div>
+      )}
+    </div>
+  );
+};
 
 interface ContractUploadProps {
   user: User;
@@ -13,26 +68,56 @@ interface ContractUploadProps {
   onClose: () => void;
 }
 
-interface FileUploadState {
-  file: File;
-  status: 'pending' | 'processing' | 'success' | 'error';
-  error?: string;
-  contract?: Contract;
-}
-
 export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadComplete, onClose }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [files, setFiles] = useState<FileUploadState[]>([]);
+  // Files are analyzed by the shared upload queue, which keeps going when this view is left
+  const { jobs: files, settings: queueSettings, cooldownUntil, throttled } = useSyncExternalStore(uploadQueue.subscribe, uploadQueue.getState);
   const [globalError, setGlobalError] = useState<string | null>(null);
+  const [pendingRun, setPendingRun] = useState<(() => void) | null>(null);
+  const [mode, setMode] = useState<'files' | 'paste'>('files');
+  const [pasteTitle, setPasteTitle] = useState('');
+  const [pasteText, setPasteText] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  // A single document analyzed on its own opens as soon as it is done
+  const openWhenDone = useRef<string | null>(null);
+  const budget = getBudgetStatus(user.id);
+  const hasRunning = files.some(f => f.status === 'processing');
+  // Ticks once a second while files are analyzed, for the elapsed time
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasRunning]);
+
+  // Soft budget: once this month's estimated spend reaches it, new analyses need a confirmation
+  const runWithinBudget = (run: () => void) => {
+    if (getBudgetStatus(user.id)?.overLimit) {
+      setPendingRun(() => run);
+      return;
+    }
+    run();
+  };
+
+  useEffect(() => {
+    const id = openWhenDone.current;
+    const job = id ? files.find(f => f.id === id) : undefined;
+    if (!job || job.status === 'queued' || job.status === 'processing') return;
+    openWhenDone.current = null;
+    if (job.status === 'success' && job.contract) {
+      uploadQueue.remove(job.id);
+      onUploadComplete(job.contract);
+    }
+  }, [files]);
   
   const validateAndAddFiles = (fileList: FileList | File[]) => {
-    const validTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
-    const newFiles: FileUploadState[] = [];
+    const newFiles: File[] = [];
     let fileError = null;
 
     Array.from(fileList).forEach(file => {
-      if (!validTypes.includes(file.type)) {
-        fileError = `File "${file.name}" has an invalid format. Please upload PDF or Images.`;
+      if (!VALID_TYPES.includes(documentMimeType(file))) {
+        fileError = `File "${file.name}" has an invalid format. Please upload PDF, Word (.docx), text or image files.`;
         return;
       }
       // Simple size check (e.g. 20MB limit which roughly fits many base64 payloads before API limits)
@@ -40,7 +125,7 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
           fileError = `File "${file.name}" is too large (>20MB).`;
           return;
       }
-      newFiles.push({ file, status: 'pending' });
+      newFiles.push(file);
     });
 
     if (fileError) {
@@ -50,126 +135,60 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
     }
 
     if (newFiles.length > 0) {
-        setFiles(prev => [...prev, ...newFiles]);
+        uploadQueue.addFiles(newFiles);
     }
   };
 
-  const processFile = async (fileState: FileUploadState): Promise<FileUploadState> => {
-      try {
-          // Convert to Base64
-          const reader = new FileReader();
-          const base64Promise = new Promise<string>((resolve, reject) => {
-              reader.onload = () => {
-                  const base64String = reader.result as string;
-                  resolve(base64String.split(',')[1]);
-              };
-              reader.onerror = () => reject(new Error("Failed to read file"));
-              reader.readAsDataURL(fileState.file);
-          });
-
-          const base64Data = await base64Promise;
-          
-          // Analyze
-          const analysis = await analyzeContract(base64Data, fileState.file.type);
-          
-          const newContract: Contract = {
-            id: generateId(),
-            userId: user.id,
-            fileName: fileState.file.name,
-            uploadDate: Date.now(),
-            status: 'analyzed',
-            analysis: analysis,
-            fileData: base64Data,
-            mimeType: fileState.file.type,
-          };
-
-          // Save
-          try {
-            await storageService.saveContract(newContract);
-          } catch (storageError: any) {
-             console.error("Storage error", storageError);
-             // We still consider this a partial success as the user can see results, but we warn them
-             throw new Error("Analyzed successfully but failed to save to browser storage. Check available disk space.");
-          }
-
-          // Cache
-          const recentAnalysis: RecentAnalysis = {
-            id: newContract.id,
-            name: newContract.fileName,
-            createdAt: new Date(newContract.uploadDate).toISOString(),
-            sourceType: 'file',
-            fileName: newContract.fileName,
-            rawText: analysis.fullText || '',
-            riskScore: analysis.riskScore || 0,
-            riskSummary: analysis.overallRisk,
-            summary: [analysis.summary],
-            clauses: analysis.clauses
-          };
-          storageService.saveRecentAnalysis(recentAnalysis);
-
-          return { ...fileState, status: 'success', contract: newContract };
-      } catch (e: any) {
-          console.error("Error processing file", fileState.file.name, e);
-          return { 
-              ...fileState, 
-              status: 'error', 
-              error: e.message || 'Failed to analyze due to an unexpected error.' 
-          };
-      }
+  // Pasted text joins the list as a plain text file, so it is analyzed like any other document
+  const handleAddPastedText = () => {
+    if (!pasteText.trim()) return;
+    const title = pasteTitle.trim() || `Pasted text ${new Date().toLocaleString()}`;
+    const file = new File([pasteText], `${title.replace(/[\\/:*?"<>|]+/g, '-')}.txt`, { type: 'text/plain' });
+    uploadQueue.addFiles([file], { pasted: true });
+    setPasteTitle('');
+    setPasteText('');
+    setGlobalError(null);
   };
 
-  const retryFile = async (index: number) => {
-      const fileToRetry = files[index];
-      if (!fileToRetry) return;
-      
-      // Update state to processing to show spinner immediately
-      setFiles(prev => prev.map((f, i) => i === index ? { ...f, status: 'processing', error: undefined } : f));
-      
-      const result = await processFile({ ...fileToRetry, status: 'pending', error: undefined });
-      
-      setFiles(prev => prev.map((f, i) => i === index ? result : f));
+  // Photos and PDFs that are still waiting can be combined into one document
+  const canCombine = (fileState: UploadJob) =>
+    fileState.status === 'pending' && !fileState.parts && COMBINABLE_TYPES.includes(documentMimeType(fileState.file));
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
   };
 
-  const handleAnalyzeAll = async () => {
-    // If single file pending, normal flow
-    // If multiple, batch flow
-    
-    // Mark pending as processing
-    setFiles(prev => prev.map(f => f.status === 'pending' || f.status === 'error' ? { ...f, status: 'processing', error: undefined } : f));
-
-    // Only process files that are not already successful
-    const filesToProcess = files.map((f, index) => ({ file: f, index })).filter(item => item.file.status !== 'success');
-    
-    // Process in parallel
-    const promises = filesToProcess.map(async (item) => {
-        const result = await processFile(item.file);
-        return { index: item.index, result };
-    });
+  // The selected rows become one row where the first of them was, pages in list order
+  const handleCombine = () => {
+    const parts = files.filter(f => selected.includes(f.id)).map(f => f.file);
+    if (parts.length < 2) return;
+    uploadQueue.combine(selected, combinedName(parts));
+    setSelected([]);
+  };
 
-    const results = await Promise.all(promises);
-    
-    // Update state with results
-    setFiles(prev => {
-        const next = [...prev];
-        results.forEach(({ index, result }) => {
-            next[index] = result;
-        });
-        return next;
-    });
+  const retryFile = (id: string) => uploadQueue.enqueue([id]);
 
-    // Navigation Logic
-    // If only 1 file total and it was successful, go to it
-    if (files.length === 1 && results.length === 1 && results[0].result.status === 'success' && results[0].result.contract) {
-        onUploadComplete(results[0].result.contract);
-    } 
-    // Otherwise stay on page showing success marks
+  // Ignores the cached result and pays for a fresh analysis
+  const reanalyzeFile = (id: string) => uploadQueue.enqueue([id], { forceRefresh: true });
+
+  // Waiting and failed files join the back of the queue
+  const handleAnalyzeAll = () => {
+    const ids = files.filter(f => f.status === 'pending' || f.status === 'error').map(f => f.id);
+    openWhenDone.current = files.length === 1 && ids.length === 1 ? ids[0] : null;
+    uploadQueue.enqueue(ids);
   };
 
-  const handleRemoveFile = (index: number) => {
-    setFiles(prev => prev.filter((_, i) => i !== index));
+  const handleRemoveFile = (id: string) => {
+    setSelected(prev => prev.filter(s => s !== id));
+    uploadQueue.remove(id);
     if (files.length <= 1) setGlobalError(null);
   };
 
+  const handleGoToDashboard = () => {
+    uploadQueue.clearFinished();
+    onClose();
+  };
+
   const onDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -188,13 +207,66 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
     }
   }, []);
 
-  const hasProcessing = files.some(f => f.status === 'processing');
-  const allSuccess = files.length > 0 && files.every(f => f.status === 'success');
-  const hasErrors = files.some(f => f.status === 'error');
+  const activeCount = files.filter(f => f.status === 'queued' || f.status === 'processing').length;
+  const waitingCount = files.filter(f => f.status === 'pending' || f.status === 'error').length;
+  const hasPending = files.some(f => f.status === 'pending');
+  const allFinished = files.length > 0 && activeCount === 0 && waitingCount === 0 && files.some(f => f.status === 'success');
+  const batchDone = queueSettings.batchStartedAt
+    ? files.filter(f => f.finishedAt && f.finishedAt >= queueSettings.batchStartedAt!).length
+    : 0;
+  const summary = activeCount === 0 ? summarizeBatch(files, queueSettings) : null;
 
   return (
     <div className="w-full max-w-3xl mx-auto animate-scale-in">
-      {/* Upload Area */}
+      {/* Source Switch */}
+      <div className="flex justify-center mb-4">
+        <div className="inline-flex bg-slate-900 border border-slate-700 rounded-xl p-1 text-sm font-medium">
+          <button
+            onClick={() => setMode('files')}
+            className={`flex items-center px-4 py-1.5 rounded-lg transition-colors ${mode === 'files' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            <Upload className="w-4 h-4 mr-2" /> Upload Files
+          </button>
+          <button
+            onClick={() => setMode('paste')}
+            className={`flex items-center px-4 py-1.5 rounded-lg transition-colors ${mode === 'paste' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            <ClipboardPaste className="w-4 h-4 mr-2" /> Paste Text
+          </button>
+        </div>
+      </div>
+
+      {mode === 'paste' ? (
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl p-6 mb-8 space-y-4">
+            <input
+              type="text"
+              value={pasteTitle}
+              onChange={(e) => setPasteTitle(e.target.value)}
+              placeholder="Title, e.g. Consulting agreement draft (optional)"
+              className="w-full px-4 py-2 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm placeholder-slate-500"
+            />
+            <textarea
+              value={pasteText}
+              onChange={(e) => setPasteText(e.target.value)}
+              placeholder="Paste the contract text here, for example from an email."
+              rows={10}
+              className="w-full px-4 py-3 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm placeholder-slate-500 resize-y"
+            />
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-500">
+                {pasteText.trim() ? `${pasteText.trim().split(/\s+/).length.toLocaleString()} words` : 'The text is analyzed as-is, no OCR needed.'}
+              </span>
+              <button
+                onClick={handleAddPastedText}
+                disabled={!pasteText.trim()}
+                className="flex items-center bg-indigo-600 text-white px-5 py-2 rounded-xl font-semibold hover:bg-indigo-700 transition-all text-sm disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add to List
+              </button>
+            </div>
+      </div>
+      ) : (
+      /* Upload Area */
       <div className="relative group mb-8">
             <div 
               className={`border-2 border-dashed rounded-3xl p-10 transition-all duration-300 flex flex-col items-center justify-center text-center cursor-pointer
@@ -209,11 +281,10 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
             >
               <input 
                 type="file" 
-                accept=".pdf,image/*" 
+                accept={ACCEPT} 
                 multiple
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                 onChange={(e) => e.target.files && validateAndAddFiles(e.target.files)}
-                disabled={hasProcessing}
               />
               <div className={`p-4 rounded-full mb-4 text-indigo-400 transition-all duration-500 ${isDragging ? 'bg-indigo-900/40 animate-bounce' : 'bg-indigo-900/20 group-hover:scale-110'}`}>
                  <Upload className="w-8 h-8" />
@@ -222,46 +293,129 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
                 Drop your contracts here
               </h3>
               <p className="text-slate-400 mb-6 max-w-sm mx-auto text-sm">
-                Upload multiple PDFs or Images to analyze them individually or compare them.
+                Upload PDFs, Word documents (.docx), text files or images to analyze them individually or compare them.
               </p>
               <button className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-semibold hover:bg-indigo-700 transition-all shadow-md shadow-indigo-900/30 pointer-events-none text-sm">
                 Select Files
               </button>
             </div>
       </div>
+      )}
+
+      {/* Batch Summary */}
+      {summary && (
+          <div className="mb-6 p-5 bg-slate-900 rounded-2xl border border-slate-700 animate-slide-up">
+              <div className="flex items-center justify-between">
+                  <h4 className="font-semibold text-slate-200 flex items-center">
+                      <ListChecks className="w-5 h-5 mr-2 text-indigo-400" /> Batch finished in {formatDuration(summary.durationMs)}
+                  </h4>
+                  <button onClick={uploadQueue.clearFinished} className="text-xs text-slate-400 hover:text-slate-200 font-medium" title="Remove analyzed and cancelled files from the list">
+                      Dismiss
+                  </button>
+              </div>
+              <div className="flex flex-wrap gap-x-6 gap-y-1 mt-3 text-sm">
+                  <span className="text-emerald-400">{summary.analyzed} analyzed{summary.cached > 0 ? ` (${summary.cached} from cache)` : ''}</span>
+                  {summary.failed > 0 && <span className="text-red-400">{summary.failed} failed</span>}
+                  {summary.cancelled > 0 && <span className="text-slate-400">{summary.cancelled} cancelled</span>}
+              </div>
+              {summary.analyzed > 0 && (
+                  <div className="flex gap-4 mt-2 text-xs text-slate-400">
+                      <span>Overall risk:</span>
+                      <span className="text-red-400">{summary.risk[RiskLevel.HIGH]} high</span>
+                      <span className="text-amber-400">{summary.risk[RiskLevel.MEDIUM]} medium</span>
+                      <span className="text-emerald-400">{summary.risk[RiskLevel.LOW]} low</span>
+                  </div>
+              )}
+          </div>
+      )}
 
       {/* File List */}
       {files.length > 0 && (
           <div className="bg-slate-900 rounded-2xl shadow-sm border border-slate-700 overflow-hidden animate-slide-up">
               <div className="p-4 bg-slate-800/50 border-b border-slate-700 flex justify-between items-center">
                   <h4 className="font-semibold text-slate-300">Selected Documents ({files.length})</h4>
+                  <div className="flex items-center gap-4">
+                  {selected.length >= 2 ? (
+                      <button
+                        onClick={handleCombine}
+                        className="flex items-center text-xs font-medium text-indigo-300 bg-indigo-900/30 hover:bg-indigo-900/50 px-3 py-1.5 rounded-lg border border-indigo-500/30"
+                      >
+                          <Layers className="w-3.5 h-3.5 mr-1.5" /> Combine {selected.length} into one document
+                      </button>
+                  ) : files.filter(canCombine).length >= 2 && (
+                      <span className="text-xs text-slate-500">Pages of one contract? Tick them to combine.</span>
+                  )}
                   {files.some(f => f.status !== 'processing') && (
                       <button 
-                        onClick={() => setFiles([])}
-                        disabled={hasProcessing}
+                        onClick={() => { uploadQueue.clear(); setSelected([]); }}
                         className="text-xs text-slate-400 hover:text-slate-200 font-medium"
                       >
                           Clear All
                       </button>
                   )}
+                  </div>
               </div>
               
               <div className="divide-y divide-slate-800 max-h-[400px] overflow-y-auto">
-                  {files.map((fileState, index) => (
-                      <div key={`${fileState.file.name}-${index}`} className={`p-4 flex items-start gap-4 transition-colors ${fileState.status === 'error' ? 'bg-red-900/5' : 'hover:bg-slate-800'}`}>
+                  {files.map((fileState) => (
+                      <div key={fileState.id} className={`p-4 flex items-start gap-4 transition-colors ${fileState.status === 'error' ? 'bg-red-900/5' : 'hover:bg-slate-800'}`}>
+                           {canCombine(fileState) && (
+                               <button
+                                   onClick={() => toggleSelected(fileState.id)}
+                                   className="mt-3 text-slate-500 hover:text-indigo-400 shrink-0"
+                                   title="Select to combine with other files"
+                               >
+                                   {selected.includes(fileState.id) ? <CheckSquare className="w-4 h-4 text-indigo-400" /> : <Square className="w-4 h-4" />}
+                               </button>
+                           )}
                            <div className={`w-10 h-10 rounded-lg flex items-center justify-center shrink-0 mt-1
                                 ${fileState.status === 'error' ? 'bg-red-900/20 text-red-400' : 'bg-indigo-900/30 text-indigo-400'}
                            `}>
-                               <FileIcon className="w-5 h-5" />
+                               {fileState.parts ? <Layers className="w-5 h-5" /> : <FileIcon className="w-5 h-5" />}
                            </div>
                            
                            <div className="flex-grow min-w-0">
                                <div className="flex justify-between items-start">
-                                    <div className="font-medium text-slate-200 truncate pr-2">{fileState.file.name}</div>
+                                    {fileState.parts && fileState.status === 'pending' ? (
+                                        <input
+                                            type="text"
+                                            value={fileState.file.name.replace(/\.pdf$/, '')}
+                                            onChange={(e) => uploadQueue.rename(fileState.id, `${e.target.value}.pdf`)}
+                                            className="font-medium text-slate-200 bg-transparent border-b border-slate-700 focus:border-indigo-500 outline-none w-full mr-2"
+                                            title="Name of the combined document"
+                                        />
+                                    ) : (
+                                        <div className="font-medium text-slate-200 truncate pr-2">{fileState.file.name}</div>
+                                    )}
+                               </div>
+                               <div className="text-xs text-slate-500 mt-0.5">
+                                   {fileState.pasted
+                                       ? 'Pasted text'
+                                       : fileState.parts
+                                           ? `${fileState.parts.length} pages from ${partFiles(fileState.parts).length} files · ${(partFiles(fileState.parts).reduce((sum, file) => sum + file.size, 0) / 1024 / 1024).toFixed(2)} MB`
+                                           : `${(fileState.file.size / 1024 / 1024).toFixed(2)} MB`}
                                </div>
-                               <div className="text-xs text-slate-500 mt-0.5">{(fileState.file.size / 1024 / 1024).toFixed(2)} MB</div>
+                               {fileState.parts && (
+                                   <PageOrderStrip
+                                       parts={fileState.parts}
+                                       onMove={(from, to) => uploadQueue.setParts(fileState.id, moveItem(fileState.parts!, from, to))}
+                                       onRemove={(partIndex) => uploadQueue.removePart(fileState.id, partIndex)}
+                                       disabled={fileState.status !== 'pending'}
+                                   />
+                               )}
                                
-                               {fileState.error && (
+                               {fileState.error && fileState.errorKind && (
+                                   <div className="mt-2">
+                                       <AIErrorNotice
+                                           kind={fileState.errorKind}
+                                           message={fileState.error}
+                                           onRetry={() => runWithinBudget(() => retryFile(fileState.id))}
+                                           actions={[{ label: 'Remove file', onClick: () => handleRemoveFile(fileState.id) }]}
+                                           compact
+                                       />
+                                   </div>
+                               )}
+                               {fileState.error && !fileState.errorKind && (
                                    <div className="mt-2 text-xs text-red-400 bg-red-950/30 p-2 rounded border border-red-900/30 flex items-start">
                                        <AlertCircle className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />
                                        <span>{fileState.error}</span>
@@ -270,30 +424,62 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
                            </div>
 
                            <div className="shrink-0 flex items-center pt-2">
+                               {fileState.status === 'pending' && fileState.parts && (
+                                   <button onClick={() => uploadQueue.split(fileState.id)} className="text-slate-500 hover:text-indigo-400 p-1 rounded hover:bg-slate-700" title="Split back into separate files">
+                                       <Ungroup className="w-4 h-4" />
+                                   </button>
+                               )}
                                {fileState.status === 'pending' && (
-                                   <button onClick={() => handleRemoveFile(index)} className="text-slate-500 hover:text-red-400 p-1 rounded hover:bg-slate-700">
+                                   <button onClick={() => handleRemoveFile(fileState.id)} className="text-slate-500 hover:text-red-400 p-1 rounded hover:bg-slate-700">
                                        <Trash2 className="w-4 h-4" />
                                    </button>
                                )}
-                               {fileState.status === 'processing' && (
-                                   <div className="flex items-center text-indigo-400 text-sm font-medium">
-                                       <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Analyzing...
+                               {fileState.status === 'queued' && (
+                                   <div className="flex items-center text-slate-400 text-sm font-medium">
+                                       <Clock className="w-4 h-4 mr-2" />
+                                       {fileState.quotaRequeues ? 'Waiting (rate limited)' : 'Waiting'}
                                    </div>
                                )}
+                               {fileState.status === 'processing' && <JobProgress job={fileState} jobs={files} now={now} />}
+                               {(fileState.status === 'queued' || fileState.status === 'processing') && (
+                                   <button onClick={() => uploadQueue.cancel(fileState.id)} className="ml-2 text-slate-500 hover:text-red-400 p-1 rounded hover:bg-slate-700" title="Cancel">
+                                       <X className="w-4 h-4" />
+                                   </button>
+                               )}
                                {fileState.status === 'success' && (
-                                   <div className="flex items-center text-emerald-400 text-sm font-medium bg-emerald-900/20 px-3 py-1 rounded-full border border-emerald-900/30">
-                                       <CheckCircle className="w-4 h-4 mr-1.5" /> Done
+                                   <div className="flex flex-col items-end gap-1.5">
+                                       <div className="flex items-center text-emerald-400 text-sm font-medium bg-emerald-900/20 px-3 py-1 rounded-full border border-emerald-900/30">
+                                           <CheckCircle className="w-4 h-4 mr-1.5" /> Done
+                                       </div>
+                                       {fileState.contract?.analysis?.cachedAt && (
+                                           <div className="flex items-center gap-2 text-[10px]">
+                                               <span className="flex items-center text-slate-500" title={`Analyzed on ${new Date(fileState.contract.analysis.cachedAt).toLocaleString()}`}>
+                                                   <Database className="w-3 h-3 mr-1" /> Cached result
+                                               </span>
+                                               <button
+                                                   onClick={() => runWithinBudget(() => reanalyzeFile(fileState.id))}
+                                                   className="text-indigo-400 hover:text-indigo-300 font-medium"
+                                               >
+                                                   Re-analyze
+                                               </button>
+                                           </div>
+                                       )}
                                    </div>
                                )}
-                               {fileState.status === 'error' && (
+                               {(fileState.status === 'cancelled' || (fileState.status === 'error' && !fileState.errorKind)) && (
                                    <div className="flex flex-col items-end gap-2">
+                                       {fileState.status === 'cancelled' && (
+                                           <span className="flex items-center text-slate-500 text-xs font-medium">
+                                               <Ban className="w-3 h-3 mr-1" /> Cancelled
+                                           </span>
+                                       )}
                                        <button 
-                                            onClick={() => retryFile(index)}
+                                            onClick={() => runWithinBudget(() => retryFile(fileState.id))}
                                             className="flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300 bg-indigo-900/20 px-2 py-1 rounded hover:bg-indigo-900/40 border border-indigo-900/30 transition-all"
                                        >
                                            <RefreshCw className="w-3 h-3 mr-1.5" /> Retry
                                        </button>
-                                       <button onClick={() => handleRemoveFile(index)} className="text-slate-600 hover:text-red-400 text-xs">
+                                       <button onClick={() => handleRemoveFile(fileState.id)} className="text-slate-600 hover:text-red-400 text-xs">
                                            Remove
                                        </button>
                                    </div>
@@ -304,41 +490,107 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
               </div>
 
               {/* Action Bar */}
-              <div className="p-5 border-t border-slate-700 bg-slate-800/50 flex justify-end gap-3">
-                   {allSuccess ? (
+              <div className="p-5 border-t border-slate-700 bg-slate-800/50 flex flex-wrap items-center justify-between gap-3">
+                   <div className="text-xs text-slate-400 space-y-1">
+                       <label className="flex items-center gap-2">
+                           Files at a time
+                           <select
+                             value={queueSettings.concurrency}
+                             onChange={(e) => uploadQueue.setConcurrency(Number(e.target.value))}
+                             className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500"
+                           >
+                               {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                           </select>
+                       </label>
+                       {activeCount > 0 && (
+                           <div>
+                               {batchDone} done, {activeCount} left{queueSettings.paused ? ' · Paused' : ''}
+                           </div>
+                       )}
+                       {activeCount > 0 && throttled && (
+                           <div className="text-amber-400/80">
+                               {cooldownUntil && cooldownUntil > Date.now()
+                                   ? 'Rate limit reached. Waiting before the next file, then one at a time.'
+                                   : 'Rate limit reached earlier. Continuing one file at a time.'}
+                           </div>
+                       )}
+                   </div>
+                   <div className="flex items-center gap-3">
+                   {activeCount > 0 && (
+                       queueSettings.paused ? (
+                           <button
+                             onClick={() => runWithinBudget(uploadQueue.resume)}
+                             className="flex items-center px-5 py-3 rounded-xl font-bold text-indigo-300 bg-indigo-900/30 hover:bg-indigo-900/50 border border-indigo-500/30 transition-all"
+                           >
+                               <Play className="w-5 h-5 mr-2" /> Resume
+                           </button>
+                       ) : (
+                           <button
+                             onClick={uploadQueue.pause}
+                             className="flex items-center px-5 py-3 rounded-xl font-bold text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 transition-all"
+                             title="Files being analyzed finish; the rest wait"
+                           >
+                               <Pause className="w-5 h-5 mr-2" /> Pause
+                           </button>
+                       )
+                   )}
+                   {allFinished ? (
                        <button
-                         onClick={onClose}
+                         onClick={handleGoToDashboard}
                          className="flex items-center bg-emerald-600 text-white px-6 py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-900/30 hover:shadow-emerald-900/50"
                        >
                            Go to Dashboard <ArrowRight className="w-5 h-5 ml-2" />
                        </button>
-                   ) : (
+                   ) : (waitingCount > 0 || activeCount === 0) && (
                        <button 
-                        onClick={handleAnalyzeAll}
-                        disabled={hasProcessing || (files.length > 0 && files.every(f => f.status === 'success')) || files.length === 0}
+                        onClick={() => runWithinBudget(handleAnalyzeAll)}
+                        disabled={waitingCount === 0}
                         className={`flex items-center px-8 py-3 rounded-xl font-bold text-white transition-all shadow-lg 
-                            ${hasProcessing || files.length === 0 || (files.every(f => f.status === 'success'))
+                            ${waitingCount === 0
                                 ? 'bg-slate-700 cursor-not-allowed text-slate-400' 
                                 : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-900/30 hover:shadow-indigo-900/50 hover:-translate-y-1'
                             }`}
                        >
-                           {hasProcessing ? (
-                               <><Loader2 className="w-5 h-5 mr-2 animate-spin" /> Processing...</>
+                           {hasPending ? (
+                               <><Sparkles className="w-5 h-5 mr-2" /> {activeCount > 0 ? 'Queue' : 'Analyze'} {waitingCount} Documents</>
                            ) : (
-                               <>
-                                {hasErrors ? (
-                                    <><RefreshCw className="w-5 h-5 mr-2" /> Retry Failed</>
-                                ) : (
-                                    <><Sparkles className="w-5 h-5 mr-2" /> Analyze {files.filter(f => f.status !== 'success').length} Documents</>
-                                )}
-                               </>
+                               <><RefreshCw className="w-5 h-5 mr-2" /> Retry Failed</>
                            )}
                        </button>
                    )}
+                   </div>
               </div>
           </div>
       )}
 
+      {pendingRun && budget && (
+        <div className="mt-6 p-4 bg-amber-900/20 border border-amber-900/30 rounded-xl text-amber-300 animate-slide-up shadow-sm">
+           <div className="flex items-center">
+               <AlertCircle className="w-6 h-6 mr-3 shrink-0" />
+               <span className="font-medium">
+                   You have spent an estimated {formatCost(budget.spent)} of your ${budget.budget.toFixed(2)} monthly AI budget. Analyze anyway?
+               </span>
+           </div>
+           <div className="flex justify-end gap-3 mt-3">
+               <button onClick={() => setPendingRun(null)} className="text-sm text-slate-400 hover:text-slate-200 font-medium">
+                   Cancel
+               </button>
+               <button
+                 onClick={() => { pendingRun(); setPendingRun(null); }}
+                 className="text-sm font-bold text-white bg-amber-600 hover:bg-amber-700 px-4 py-1.5 rounded-lg transition-colors"
+               >
+                   Analyze anyway
+               </button>
+           </div>
+        </div>
+      )}
+
+      {!pendingRun && budget?.nearLimit && files.some(f => f.status !== 'success') && (
+        <div className="mt-6 text-xs text-amber-400/80 text-center">
+           {budget.overLimit ? 'Monthly AI budget reached' : `${Math.round(budget.ratio * 100)}% of your monthly AI budget used`} ({formatCost(budget.spent)} of ${budget.budget.toFixed(2)}).
+        </div>
+      )}
+
       {globalError && (
         <div className="mt-6 p-4 bg-red-900/20 border border-red-900/30 rounded-xl flex items-center text-red-400 animate-slide-up shadow-sm">
            <AlertCircle className="w-6 h-6 mr-3 shrink-0" />
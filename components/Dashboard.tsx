@@ -1,8 +1,15 @@
-import React, { useEffect, useState } from 'react';
-import { Contract, User, RecentAnalysis, RiskLevel } from '../types';
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Clause, Contract, ContractType, User, RecentAnalysis, RiskLevel, RiskCategory } from '../types';
 import { storageService } from '../services/storageService';
-import { FileText, Plus, ChevronRight, Clock, Search, ArrowUpDown, History, Trash2, CheckSquare, Square, SplitSquareHorizontal } from 'lucide-react';
+import { FileText, Plus, ChevronRight, Clock, Search, ArrowUpDown, History, Trash2, CheckSquare, Square, SplitSquareHorizontal, Tag, CalendarClock, CalendarPlus, Files, UserCheck, Loader2, Pause } from 'lucide-react';
 import { RiskBadge } from './RiskBadge';
+import { RISK_CATEGORIES, clauseCategory } from '../services/riskCategories';
+import { CONTRACT_TYPES } from '../services/contractTypes';
+import { DeadlineList } from './DeadlineList';
+import { computeDeadlines, downloadCalendar, upcomingDeadlines } from '../services/deadlines';
+import { REVIEW_REASON_LABELS, reviewQueue, updateClause } from '../services/reviewQueue';
+import { ReviewControls } from './ReviewControls';
+import { uploadQueue } from '../services/uploadQueue';
 
 interface DashboardProps {
   user: User;
@@ -11,12 +18,21 @@ interface DashboardProps {
   onCompare: (contracts: Contract[]) => void;
 }
 
+// How far ahead the upcoming deadlines list looks
+const UPCOMING_DAYS = 60;
+const MAX_UPCOMING = 6;
+const MAX_REVIEW_ITEMS = 8;
+
+const RISK_ORDER: Record<RiskLevel, number> = { [RiskLevel.HIGH]: 0, [RiskLevel.MEDIUM]: 1, [RiskLevel.LOW]: 2 };
+
 export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelectContract, onCompare }) => {
   const [contracts, setContracts] = useState<Contract[]>([]);
   const [recentAnalyses, setRecentAnalyses] = useState<RecentAnalysis[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortOrder, setSortOrder] = useState<string>('newest');
+  const [categoryFilter, setCategoryFilter] = useState<RiskCategory | ''>('');
+  const [typeFilter, setTypeFilter] = useState<ContractType | ''>('');
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [confirmClear, setConfirmClear] = useState(false);
   
@@ -38,6 +54,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
     loadData();
   }, [user.id]);
 
+  // Files finished by the upload queue show up without leaving the dashboard
+  const queue = useSyncExternalStore(uploadQueue.subscribe, uploadQueue.getState);
+  const queueAnalyzed = queue.jobs.filter(job => job.status === 'success').length;
+  const queueActive = queue.jobs.filter(job => job.status === 'queued' || job.status === 'processing').length;
+  useEffect(() => {
+    if (queueAnalyzed > 0) setContracts(storageService.getContracts(user.id));
+  }, [queueAnalyzed, user.id]);
+
   const handleClearHistory = () => {
     if (confirmClear) {
         storageService.clearRecentAnalyses();
@@ -92,6 +116,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
       contract.fileName.toLowerCase().includes(searchQuery.toLowerCase()) ||
       (contract.analysis && contract.analysis.summary.toLowerCase().includes(searchQuery.toLowerCase()))
     )
+    .filter(contract =>
+      !categoryFilter || (contract.analysis?.clauses || []).some(clause => clauseCategory(clause) === categoryFilter)
+    )
+    .filter(contract => !typeFilter || contract.analysis?.contractType === typeFilter)
     .sort((a, b) => {
       switch (sortOrder) {
         case 'newest':
@@ -111,6 +139,30 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
       }
     });
 
+  const libraryDeadlines = contracts.flatMap(contract => computeDeadlines(contract));
+  const upcoming = upcomingDeadlines(contracts, UPCOMING_DAYS);
+
+  const toReview = reviewQueue(contracts);
+
+  const handleReview = async (contract: Contract, clause: Clause) => {
+    const updated = updateClause(contract, clause);
+    setContracts(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+    await storageService.saveContract(updated);
+  };
+
+  const handleExportLibrary = () => {
+    downloadCalendar(libraryDeadlines, 'LegalLens Contract Deadlines', 'LegalLens_Deadlines.ics');
+  };
+
+  // Every clause of the selected category across the filtered contracts, riskiest first
+  const categoryClauses = categoryFilter
+    ? filteredContracts
+        .flatMap(contract => (contract.analysis?.clauses || [])
+          .filter(clause => clauseCategory(clause) === categoryFilter)
+          .map(clause => ({ contract, clause })))
+        .sort((a, b) => RISK_ORDER[a.clause.riskLevel] - RISK_ORDER[b.clause.riskLevel])
+    : [];
+
   return (
     <div className="space-y-8 relative">
       <div className="flex flex-col md:flex-row justify-between items-end md:items-center gap-4 animate-slide-down">
@@ -138,6 +190,20 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
         </div>
       </div>
 
+      {queueActive > 0 && (
+        <button
+          onClick={onNewUpload}
+          className="w-full flex items-center justify-between p-4 bg-indigo-900/20 border border-indigo-500/30 rounded-xl text-sm text-indigo-200 hover:bg-indigo-900/30 transition-colors animate-fade-in"
+        >
+          <span className="flex items-center font-medium">
+            {queue.settings.paused
+              ? <><Pause className="w-4 h-4 mr-2" /> Upload queue paused with {queueActive} {queueActive === 1 ? 'file' : 'files'} waiting</>
+              : <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Analyzing uploads: {queueActive} {queueActive === 1 ? 'file' : 'files'} left</>}
+          </span>
+          <span className="flex items-center text-indigo-400">View queue <ChevronRight className="w-4 h-4 ml-1" /></span>
+        </button>
+      )}
+
       <div className="flex flex-col sm:flex-row gap-4 animate-fade-in" style={{animationDelay: '0.1s'}}>
         {/* Search Bar */}
         <div className="relative flex-grow group">
@@ -153,6 +219,40 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
           />
         </div>
 
+        {/* Contract Type Filter */}
+        <div className="relative min-w-[180px]">
+           <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as ContractType | '')}
+              className="appearance-none w-full bg-slate-900 border border-slate-700 text-slate-300 py-3 pl-4 pr-10 rounded-xl leading-5 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm shadow-sm cursor-pointer hover:border-slate-600 transition-colors"
+            >
+              <option value="">All Types</option>
+              {CONTRACT_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+           </select>
+           <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-slate-500">
+              <Files className="h-4 w-4" />
+           </div>
+        </div>
+
+        {/* Category Filter */}
+        <div className="relative min-w-[200px]">
+           <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value as RiskCategory | '')}
+              className="appearance-none w-full bg-slate-900 border border-slate-700 text-slate-300 py-3 pl-4 pr-10 rounded-xl leading-5 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm shadow-sm cursor-pointer hover:border-slate-600 transition-colors"
+            >
+              <option value="">All Categories</option>
+              {RISK_CATEGORIES.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+           </select>
+           <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-slate-500">
+              <Tag className="h-4 w-4" />
+           </div>
+        </div>
+
         {/* Sort Filter */}
         <div className="relative min-w-[180px]">
            <select
@@ -232,6 +332,124 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
                 </div>
             )}
 
+            {/* Upcoming Deadlines */}
+            {libraryDeadlines.length > 0 && (
+                <div className="animate-slide-up" style={{animationDelay: '0.15s'}}>
+                    <div className="flex items-center justify-between mb-4">
+                        <div className="flex flex-col">
+                            <h2 className="text-lg font-bold text-slate-200 flex items-center">
+                                <CalendarClock className="w-5 h-5 mr-2 text-indigo-500" />
+                                Upcoming Deadlines
+                            </h2>
+                            <p className="text-xs text-slate-500 mt-1">Next {UPCOMING_DAYS} days, worked out from each contract's key facts.</p>
+                        </div>
+                        <button
+                            onClick={handleExportLibrary}
+                            className="text-xs flex items-center font-medium px-3 py-1.5 rounded-lg text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/20 transition-all"
+                            title="Download every contract's deadlines as one calendar file (.ics)"
+                        >
+                            <CalendarPlus className="w-3 h-3 mr-1" />
+                            Export all (.ics)
+                        </button>
+                    </div>
+                    <div className="bg-slate-900 rounded-xl border border-slate-800 px-4 py-1">
+                        {upcoming.length === 0 && (
+                            <p className="py-3 text-sm text-slate-500">Nothing due in the next {UPCOMING_DAYS} days.</p>
+                        )}
+                        <DeadlineList
+                            items={upcoming.slice(0, MAX_UPCOMING)}
+                            showContract
+                            onSelect={(item) => {
+                                const contract = contracts.find(c => c.id === item.deadline.contractId);
+                                if (contract) onSelectContract(contract);
+                            }}
+                        />
+                    </div>
+                    {upcoming.length > MAX_UPCOMING && (
+                        <p className="text-xs text-slate-500 mt-2">And {upcoming.length - MAX_UPCOMING} more. Export the calendar to see them all.</p>
+                    )}
+                </div>
+            )}
+
+            {/* Flagged clauses no one has reviewed yet */}
+            {toReview.length > 0 && (
+                <div className="animate-slide-up" style={{animationDelay: '0.2s'}}>
+                    <div className="flex flex-col mb-4">
+                        <h2 className="text-lg font-bold text-slate-200 flex items-center">
+                            <UserCheck className="w-5 h-5 mr-2 text-amber-400" />
+                            Needs Review
+                            <span className="ml-2 text-sm font-medium text-slate-500">({toReview.length})</span>
+                        </h2>
+                        <p className="text-xs text-slate-500 mt-1">Clauses the analysis was unsure about or with the most at stake. Confirm or correct each one.</p>
+                    </div>
+                    <div className="bg-slate-900 rounded-xl border border-slate-800 divide-y divide-slate-800">
+                        {toReview.slice(0, MAX_REVIEW_ITEMS).map(({ contract, clause, reasons, confidence }) => (
+                            <div
+                                key={`${contract.id}-${clause.id}`}
+                                onClick={() => onSelectContract(contract)}
+                                className="p-4 flex items-start gap-4 cursor-pointer hover:bg-slate-800/50 transition-colors group"
+                            >
+                                <RiskBadge level={clause.riskLevel} size="sm" />
+                                <div className="flex-1 min-w-0 space-y-2">
+                                    <div>
+                                        <div className="text-sm font-medium text-slate-200">{clause.explanation}</div>
+                                        <div className="text-xs text-slate-500 mt-1 line-clamp-1 italic">"{clause.text}"</div>
+                                    </div>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        {reasons.map(reason => (
+                                            <span key={reason} className="text-[10px] font-semibold uppercase tracking-wide text-amber-400 bg-amber-900/20 border border-amber-900/30 px-2 py-0.5 rounded">
+                                                {REVIEW_REASON_LABELS[reason]}
+                                            </span>
+                                        ))}
+                                        {confidence !== undefined && (
+                                            <span className="text-xs text-slate-500">{Math.round(confidence * 100)}% confident</span>
+                                        )}
+                                    </div>
+                                    <ReviewControls clause={clause} onUpdate={(updated) => handleReview(contract, updated)} />
+                                </div>
+                                <div className="text-xs text-slate-500 truncate max-w-[30%] flex items-center group-hover:text-indigo-400" title={contract.fileName}>
+                                    <FileText className="w-3 h-3 mr-1 shrink-0" />
+                                    <span className="truncate">{contract.fileName}</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    {toReview.length > MAX_REVIEW_ITEMS && (
+                        <p className="text-xs text-slate-500 mt-2">And {toReview.length - MAX_REVIEW_ITEMS} more. Open a contract to review all of its clauses.</p>
+                    )}
+                </div>
+            )}
+
+            {/* Clauses of the selected category across all contracts */}
+            {categoryFilter && categoryClauses.length > 0 && (
+                <div className="animate-slide-up">
+                    <h2 className="text-lg font-bold text-slate-200 mb-4 flex items-center">
+                        <Tag className="w-5 h-5 mr-2 text-indigo-500" />
+                        {categoryFilter} Clauses
+                        <span className="ml-2 text-sm font-medium text-slate-500">({categoryClauses.length})</span>
+                    </h2>
+                    <div className="bg-slate-900 rounded-xl border border-slate-800 divide-y divide-slate-800">
+                        {categoryClauses.map(({ contract, clause }) => (
+                            <div
+                                key={`${contract.id}-${clause.id}`}
+                                onClick={() => onSelectContract(contract)}
+                                className="p-4 flex items-start gap-4 cursor-pointer hover:bg-slate-800/50 transition-colors group"
+                            >
+                                <RiskBadge level={clause.riskLevel} size="sm" />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium text-slate-200">{clause.explanation}</div>
+                                    <div className="text-xs text-slate-500 mt-1 line-clamp-1 italic">"{clause.text}"</div>
+                                </div>
+                                <div className="text-xs text-slate-500 truncate max-w-[30%] flex items-center group-hover:text-indigo-400" title={contract.fileName}>
+                                    <FileText className="w-3 h-3 mr-1 shrink-0" />
+                                    <span className="truncate">{contract.fileName}</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Main Saved Contracts */}
             <div className="animate-slide-up" style={{animationDelay: '0.3s'}}>
                 <h2 className="text-lg font-bold text-slate-200 mb-4">Saved Documents</h2>
@@ -250,7 +468,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
                             <Search className="w-6 h-6" />
                             </div>
                             <h3 className="text-slate-200 font-medium">No results found</h3>
-                            <p className="text-slate-500 mt-1">No contracts match "{searchQuery}"</p>
+                            <p className="text-slate-500 mt-1">
+                                {categoryFilter
+                                    ? `No ${typeFilter ? `${typeFilter} ` : ''}contracts with ${categoryFilter} clauses match your search`
+                                    : typeFilter ? `No ${typeFilter} contracts match your search` : `No contracts match "${searchQuery}"`}
+                            </p>
                         </div>
                     )
                 ) : (
@@ -292,6 +514,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
                         <h3 className="font-semibold text-slate-100 mb-2 truncate pr-8" title={contract.fileName}>
                             {contract.fileName}
                         </h3>
+                        {contract.analysis?.contractType && (
+                            <span className="self-start mb-2 text-[10px] font-semibold uppercase tracking-wide text-slate-400 bg-slate-800 border border-slate-700 px-2 py-0.5 rounded">
+                                {contract.analysis.contractType}
+                            </span>
+                        )}
                         
                         {contract.analysis && (
                             <p className="text-slate-400 text-sm line-clamp-2 flex-grow">
@@ -0,0 +1,53 @@
+import React from 'react';
+import { CalendarClock, RefreshCw, CreditCard, AlertTriangle } from 'lucide-react';
+import { DEADLINE_LABELS, DeadlineKind, UpcomingDeadline } from '../services/deadlines';
+
+interface DeadlineListProps {
+  items: UpcomingDeadline[];
+  showContract?: boolean;
+  onSelect?: (item: UpcomingDeadline) => void;
+}
+
+const KIND_STYLES: Record<DeadlineKind, { icon: React.ElementType; className: string }> = {
+  cancellation: { icon: AlertTriangle, className: 'text-red-400 bg-red-900/20 border-red-900/30' },
+  renewal: { icon: RefreshCw, className: 'text-amber-400 bg-amber-900/20 border-amber-900/30' },
+  expiry: { icon: CalendarClock, className: 'text-indigo-400 bg-indigo-900/20 border-indigo-900/30' },
+  payment: { icon: CreditCard, className: 'text-emerald-400 bg-emerald-900/20 border-emerald-900/30' },
+};
+
+const formatDaysLeft = (days: number) =>
+  days === 0 ? 'Today' : days === 1 ? 'Tomorrow' : `In ${days} days`;
+
+// Dates are calendar days, so they are shown without converting to the local time zone
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC', day: 'numeric', month: 'short', year: 'numeric' });
+
+export const DeadlineList: React.FC<DeadlineListProps> = ({ items, showContract, onSelect }) => (
+  <div className="divide-y divide-slate-800">
+    {items.map(item => {
+      const { icon: Icon, className } = KIND_STYLES[item.deadline.kind];
+      return (
+        <div
+          key={`${item.deadline.id}-${item.date}`}
+          onClick={onSelect ? () => onSelect(item) : undefined}
+          className={`py-3 flex items-center gap-3 ${onSelect ? 'cursor-pointer hover:bg-slate-800/40 -mx-2 px-2 rounded-lg transition-colors' : ''}`}
+        >
+          <div className={`p-2 rounded-lg border ${className}`}>
+            <Icon className="w-4 h-4" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-medium text-slate-200">
+              {DEADLINE_LABELS[item.deadline.kind]}
+              {showContract && <span className="text-slate-400 font-normal"> · {item.deadline.contractName}</span>}
+            </div>
+            <div className="text-xs text-slate-500 truncate" title={item.deadline.description}>{item.deadline.description}</div>
+          </div>
+          <div className="text-right shrink-0">
+            <div className="text-sm text-slate-300">{formatDay(item.date)}</div>
+            <div className={`text-xs ${item.daysLeft <= 7 ? 'text-red-400 font-semibold' : 'text-slate-500'}`}>{formatDaysLeft(item.daysLeft)}</div>
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Layers, Loader2, Download, X, ChevronLeft, ChevronRight, AlertCircle } from 'lucide-react';
+import { SourcePage } from '../types';
+import { extractPdfPage, renderPdfPages } from '../services/pdfPages';
+import { getSourceFile } from '../services/sourceFiles';
+
+interface DocumentPagesProps {
+  fileData: string; // The combined PDF
+  sourcePages: SourcePage[];
+}
+
+const THUMBNAIL_SCALE = 0.3;
+const FULL_SCALE = 1.5;
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const downloadDataUrl = (href: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// The pages of a document combined from several files, each labeled with the file it came from
+export const DocumentPages: React.FC<DocumentPagesProps> = ({ fileData, sourcePages }) => {
+  const [thumbnails, setThumbnails] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState<{ index: number; image?: string } | null>(null);
+
+  const pageNumbers = sourcePages.map((_, index) => index + 1);
+
+  const handleShow = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setThumbnails(await renderPdfPages(fileData, pageNumbers, THUMBNAIL_SCALE));
+    } catch (e) {
+      console.error("Failed to render pages", e);
+      setError("The pages could not be displayed. You can still download the original file.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openPage = async (index: number) => {
+    setOpen({ index });
+    try {
+      const [image] = await renderPdfPages(fileData, [index + 1], FULL_SCALE);
+      setOpen(current => (current?.index === index ? { index, image } : current));
+    } catch (e) {
+      console.error("Failed to render page", e);
+      setOpen(null);
+      setError("The page could not be displayed.");
+    }
+  };
+
+  // Photos come back as uploaded, pages of PDFs as one-page PDFs copied from the original
+  const downloadPage = async (index: number) => {
+    const source = sourcePages[index];
+    try {
+      if (source.mimeType === 'application/pdf') {
+        const data = await extractPdfPage(fileData, index + 1);
+        downloadDataUrl(`data:application/pdf;base64,${data}`, `${baseName(source.fileName)} - page ${source.page ?? 1}.pdf`);
+        return;
+      }
+      const original = source.originalId ? await getSourceFile(source.originalId) : null;
+      if (original) {
+        const url = URL.createObjectURL(original);
+        downloadDataUrl(url, source.fileName);
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+      } else {
+        // Documents combined before originals were kept only have the copy in the PDF
+        const [image] = await renderPdfPages(fileData, [index + 1], FULL_SCALE);
+        downloadDataUrl(image, `${baseName(source.fileName)}.jpg`);
+      }
+    } catch (e) {
+      console.error("Failed to download page", e);
+      setError("The page could not be downloaded.");
+    }
+  };
+
+  const pageLabel = (source: SourcePage) => (source.page ? `${source.fileName}, page ${source.page}` : source.fileName);
+
+  return (
+    <div className="bg-slate-900 rounded-2xl shadow-sm border border-slate-800 p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-slate-100 flex items-center">
+          <Layers className="w-5 h-5 mr-2 text-indigo-500" />
+          Pages
+          <span className="ml-2 text-sm font-medium text-slate-500">({sourcePages.length}, combined from {new Set(sourcePages.map(p => p.fileName)).size} files)</span>
+        </h3>
+        {!thumbnails && (
+          <button
+            onClick={handleShow}
+            disabled={loading}
+            className="flex items-center text-sm font-medium text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+          >
+            {loading ? <><Loader2 className="w-4 h-4 mr-1 animate-spin" /> Loading pages...</> : 'Show pages'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-400 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1.5 shrink-0" /> {error}
+        </p>
+      )}
+
+      {thumbnails && (
+        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3 mt-4">
+          {thumbnails.map((thumbnail, index) => (
+            <div key={index} className="group">
+              <button
+                onClick={() => openPage(index)}
+                className="block w-full bg-slate-800 rounded-lg border border-slate-700 hover:border-indigo-500/50 overflow-hidden"
+                title={pageLabel(sourcePages[index])}
+              >
+                <img src={thumbnail} alt={`Page ${index + 1}`} className="w-full h-32 object-contain" />
+              </button>
+              <div className="flex items-center justify-between mt-1 text-[10px] text-slate-500">
+                <span className="truncate" title={pageLabel(sourcePages[index])}>{index + 1}. {sourcePages[index].fileName}</span>
+                <button onClick={() => downloadPage(index)} className="p-0.5 hover:text-indigo-400 shrink-0" title="Download this page">
+                  <Download className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {open && (
+        <div className="fixed inset-0 z-50 bg-slate-950/90 flex flex-col items-center justify-center p-6 animate-fade-in" onClick={() => setOpen(null)}>
+          <div className="flex items-center gap-4 mb-3 text-sm text-slate-300" onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => openPage(open.index - 1)}
+              disabled={open.index === 0}
+              className="p-1 hover:text-white disabled:opacity-30"
+              title="Previous page"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span>Page {open.index + 1} of {sourcePages.length} · {pageLabel(sourcePages[open.index])}</span>
+            <button
+              onClick={() => openPage(open.index + 1)}
+              disabled={open.index === sourcePages.length - 1}
+              className="p-1 hover:text-white disabled:opacity-30"
+              title="Next page"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <button onClick={() => downloadPage(open.index)} className="p-1 hover:text-white" title="Download this page">
+              <Download className="w-5 h-5" />
+            </button>
+            <button onClick={() => setOpen(null)} className="p-1 hover:text-white" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex-1 min-h-0 flex items-center justify-center" onClick={(e) => e.stopPropagation()}>
+            {open.image
+              ? <img src={open.image} alt={`Page ${open.index + 1}`} className="max-h-full max-w-full object-contain rounded shadow-2xl" />
+              : <Loader2 className="w-8 h-8 text-indigo-400 animate-spin" />}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Clause, RiskLevel } from '../types';
+import { isAnchored } from '../services/clauseAnchors';
+
+interface HighlightedDocumentProps {
+  text: string;
+  clauses: Clause[];
+  activeClauseId?: string;
+  onSelectClause: (clauseId: string) => void;
+}
+
+export const passageElementId = (clauseId: string) => `passage-${clauseId}`;
+
+const passageStyles = (level: RiskLevel) => {
+  switch (level) {
+    case RiskLevel.HIGH: return 'bg-red-500/20 text-red-100 border-b-2 border-red-500/50 hover:bg-red-500/30';
+    case RiskLevel.MEDIUM: return 'bg-amber-500/20 text-amber-100 border-b-2 border-amber-500/50 hover:bg-amber-500/30';
+    default: return 'bg-emerald-500/15 text-emerald-100 border-b-2 border-emerald-500/40 hover:bg-emerald-500/25';
+  }
+};
+
+// Full document text with every located clause highlighted by risk colour
+export const HighlightedDocument: React.FC<HighlightedDocumentProps> = ({ text, clauses, activeClauseId, onSelectClause }) => {
+  const passages = clauses
+    .filter(isAnchored)
+    .sort((a, b) => a.startOffset! - b.startOffset!);
+
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+  passages.forEach(clause => {
+    // Overlapping passages keep the earlier highlight; the later one starts where it ends
+    const start = Math.max(clause.startOffset!, cursor);
+    const end = clause.endOffset!;
+    if (start >= end) return;
+
+    if (start > cursor) nodes.push(text.slice(cursor, start));
+    nodes.push(
+      <mark
+        key={clause.id}
+        id={passageElementId(clause.id)}
+        onClick={() => onSelectClause(clause.id)}
+        title={`${clause.riskLevel} Risk: ${clause.explanation}`}
+        className={`cursor-pointer rounded-sm px-0.5 transition-colors ${passageStyles(clause.riskLevel)} ${
+          activeClauseId === clause.id ? 'ring-2 ring-indigo-400' : ''
+        }`}
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) nodes.push(text.slice(cursor));
+
+  return <>{nodes}</>;
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { ClipboardList, Pencil, Save, X, Plus, Trash2, Quote } from 'lucide-react';
+import { KeyFact, KeyFacts } from '../types';
+import { KEY_FACT_FIELDS, ListFactKey, SingleFactKey, emptyKeyFacts, factsFor, hasKeyFacts } from '../services/keyFacts';
+
+interface KeyFactsPanelProps {
+  keyFacts?: KeyFacts;
+  onChange?: (keyFacts: KeyFacts) => void;
+}
+
+// Marks facts whose value the user changed; untouched facts keep their extracted value and quote
+const markEdits = (original: KeyFact[], updated: KeyFact[]): KeyFact[] =>
+  updated
+    .map(fact => ({ ...fact, value: fact.value.trim() }))
+    .filter(fact => fact.value)
+    .map(fact => {
+      const before = original.find(o => o.sourceQuote === fact.sourceQuote && o.value === fact.value);
+      return before ? before : { ...fact, edited: true };
+    });
+
+export const KeyFactsPanel: React.FC<KeyFactsPanelProps> = ({ keyFacts, onChange }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<KeyFacts>(emptyKeyFacts());
+
+  const startEditing = () => {
+    setDraft(keyFacts ? { ...keyFacts } : emptyKeyFacts());
+    setEditing(true);
+  };
+
+  const updateSingle = (key: SingleFactKey, value: string) => {
+    setDraft({ ...draft, [key]: { ...draft[key], value } });
+  };
+
+  const updateListItem = (key: ListFactKey, index: number, value: string) => {
+    setDraft({ ...draft, [key]: draft[key].map((fact, i) => (i === index ? { ...fact, value } : fact)) });
+  };
+
+  const addListItem = (key: ListFactKey) => {
+    setDraft({ ...draft, [key]: [...draft[key], { value: '' }] });
+  };
+
+  const removeListItem = (key: ListFactKey, index: number) => {
+    setDraft({ ...draft, [key]: draft[key].filter((_, i) => i !== index) });
+  };
+
+  const handleSave = () => {
+    const original = keyFacts || emptyKeyFacts();
+    const saved: KeyFacts = emptyKeyFacts();
+    KEY_FACT_FIELDS.forEach(({ key, list }) => {
+      const edited = markEdits(factsFor(original, key), factsFor(draft, key));
+      if (list) {
+        saved[key as ListFactKey] = edited;
+      } else if (edited[0]) {
+        saved[key as SingleFactKey] = edited[0];
+      }
+    });
+    onChange?.(saved);
+    setEditing(false);
+  };
+
+  const inputClass = "w-full px-3 py-1.5 bg-slate-950 text-slate-100 border border-slate-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm placeholder-slate-600";
+
+  const renderFact = (fact: KeyFact, key: React.Key) => (
+    <div key={key}>
+      <div className="text-sm text-slate-200">
+        {fact.value}
+        {fact.edited && <span className="ml-2 text-[10px] uppercase tracking-wide text-indigo-400">Edited</span>}
+      </div>
+      {fact.sourceQuote && (
+        <div className="text-xs text-slate-500 italic mt-0.5 flex items-start gap-1">
+          <Quote className="w-3 h-3 mt-0.5 shrink-0" />
+          <span className="line-clamp-2" title={fact.sourceQuote}>{fact.sourceQuote}</span>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900 rounded-xl p-5 border border-slate-800">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+          <ClipboardList className="w-5 h-5 mr-2 text-indigo-500" />
+          Key Facts
+        </h3>
+        {onChange && (editing ? (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setEditing(false)}
+              className="flex items-center text-xs font-medium text-slate-400 hover:text-slate-200 px-2 py-1"
+            >
+              <X className="w-3.5 h-3.5 mr-1" /> Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex items-center text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 px-3 py-1.5 rounded-lg"
+            >
+              <Save className="w-3.5 h-3.5 mr-1" /> Save
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={startEditing}
+            className="flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300"
+          >
+            <Pencil className="w-3.5 h-3.5 mr-1" /> Edit
+          </button>
+        ))}
+      </div>
+
+      {editing ? (
+        <div className="grid md:grid-cols-2 gap-x-6 gap-y-4">
+          {KEY_FACT_FIELDS.map(({ key, label, list }) => (
+            <div key={key}>
+              <label className="block text-xs uppercase tracking-wide text-slate-500 font-bold mb-1">{label}</label>
+              {list ? (
+                <div className="space-y-2">
+                  {draft[key as ListFactKey].map((fact, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={fact.value}
+                        onChange={(e) => updateListItem(key as ListFactKey, index, e.target.value)}
+                        className={inputClass}
+                      />
+                      <button
+                        onClick={() => removeListItem(key as ListFactKey, index)}
+                        className="p-1.5 text-slate-500 hover:text-red-400"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => addListItem(key as ListFactKey)}
+                    className="flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300"
+                  >
+                    <Plus className="w-3.5 h-3.5 mr-1" /> Add
+                  </button>
+                </div>
+              ) : (
+                <input
+                  type="text"
+                  value={draft[key as SingleFactKey]?.value || ''}
+                  onChange={(e) => updateSingle(key as SingleFactKey, e.target.value)}
+                  placeholder="Not stated"
+                  className={inputClass}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      ) : hasKeyFacts(keyFacts) ? (
+        <dl className="grid md:grid-cols-2 gap-x-6 gap-y-4">
+          {KEY_FACT_FIELDS.map(({ key, label }) => {
+            const facts = factsFor(keyFacts!, key);
+            return (
+              <div key={key}>
+                <dt className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-1">{label}</dt>
+                <dd className="space-y-2">
+                  {facts.length > 0
+                    ? facts.map((fact, index) => renderFact(fact, index))
+                    : <span className="text-sm text-slate-600">Not stated</span>}
+                </dd>
+              </div>
+            );
+          })}
+        </dl>
+      ) : (
+        <p className="text-sm text-slate-500">
+          {keyFacts ? 'No key facts were found in this document.' : 'Key facts were not extracted for this analysis.'}
+          {onChange && ' Use Edit to add them by hand.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import { CombinedPart } from '../services/combineDocuments';
+import { renderPdfPages } from '../services/pdfPages';
+import { bytesToBase64 } from '../services/base64';
+
+interface PageOrderStripProps {
+  parts: CombinedPart[];
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+  disabled?: boolean;
+}
+
+const THUMBNAIL_SCALE = 0.2;
+
+// Every page of a PDF renders from the same file, so it is only read once
+const pdfData = new WeakMap<File, Promise<string>>();
+const readPdf = (file: File) => {
+  const data = pdfData.get(file) || file.arrayBuffer().then(buffer => bytesToBase64(new Uint8Array(buffer)));
+  pdfData.set(file, data);
+  return data;
+};
+
+const PartThumbnail: React.FC<{ part: CombinedPart }> = ({ part }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const { file, page } = part;
+    if (file.type.startsWith('image/')) {
+      const objectUrl = URL.createObjectURL(file);
+      setUrl(objectUrl);
+      return () => URL.revokeObjectURL(objectUrl);
+    }
+    if (!page) return;
+    let cancelled = false;
+    readPdf(file)
+      .then(data => renderPdfPages(data, [page], THUMBNAIL_SCALE))
+      .then(([image]) => { if (!cancelled) setUrl(image); })
+      .catch(e => console.warn("Failed to render page thumbnail", file.name, e));
+    return () => { cancelled = true; };
+  }, [part.file, part.page]);
+
+  return url
+    ? <img src={url} alt={part.file.name} className="w-full h-full object-cover" draggable={false} />
+    : <FileText className="w-6 h-6 text-indigo-400" />;
+};
+
+const partLabel = (part: CombinedPart) => (part.page ? `${part.file.name}, page ${part.page}` : part.file.name);
+
+// The pages of a combined document in order; drag one onto another to move it there
+export const PageOrderStrip: React.FC<PageOrderStripProps> = ({ parts, onMove, onRemove, disabled }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1 mt-2">
+      {parts.map((part, index) => (
+        <div
+          key={`${part.file.name}-${part.file.lastModified}-${part.page ?? 0}-${index}`}
+          draggable={!disabled}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', String(index));
+            setDragIndex(index);
+          }}
+          onDragOver={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            setOverIndex(index);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (dragIndex !== null && dragIndex !== index) onMove(dragIndex, index);
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+          className={`relative group shrink-0 w-16 ${disabled ? '' : 'cursor-grab active:cursor-grabbing'} ${dragIndex === index ? 'opacity-40' : ''}`}
+          title={`${index + 1}. ${partLabel(part)}${disabled ? '' : ' (drag to reorder)'}`}
+        >
+          <div className={`h-20 rounded-md border bg-slate-800 overflow-hidden flex items-center justify-center transition-colors ${overIndex === index && dragIndex !== index ? 'border-indigo-400 ring-2 ring-indigo-500/40' : 'border-slate-700'}`}>
+            <PartThumbnail part={part} />
+          </div>
+          <div className="text-[10px] text-slate-500 truncate mt-0.5">{index + 1}. {part.page ? `p. ${part.page} · ` : ''}{part.file.name}</div>
+          {!disabled && (
+            <button
+              onClick={() => onRemove(index)}
+              className="absolute -top-1.5 -right-1.5 hidden group-hover:flex items-center justify-center w-4 h-4 rounded-full bg-slate-700 text-slate-300 hover:bg-red-600 hover:text-white"
+              title={part.page ? 'Leave this page out' : 'Take out of this document'}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useRef, useState } from 'react';
+import { BookMarked, Plus, Trash2, Save, Upload, Download, AlertTriangle } from 'lucide-react';
+import { PlaybookRule, RiskCategory, RiskLevel, User } from '../types';
+import { RISK_CATEGORIES } from '../services/riskCategories';
+import { downloadPlaybook, getPlaybook, newPlaybookRule, parsePlaybook, ruleProblem, savePlaybook } from '../services/playbook';
+
+interface PlaybookEditorProps {
+  user: User;
+}
+
+// Keywords are edited as one comma-separated string and split on save
+type DraftRule = PlaybookRule & { keywordsText: string };
+
+const toDraft = (rule: PlaybookRule): DraftRule => ({ ...rule, keywordsText: (rule.keywords || []).join(', ') });
+
+const fromDraft = ({ keywordsText, ...rule }: DraftRule): PlaybookRule => {
+  const keywords = keywordsText.split(',').map(k => k.trim()).filter(Boolean);
+  return {
+    ...rule,
+    name: rule.name.trim(),
+    message: rule.message.trim(),
+    keywords: keywords.length > 0 ? keywords : undefined,
+    pattern: rule.pattern?.trim() || undefined,
+    category: rule.category || undefined,
+  };
+};
+
+export const PlaybookEditor: React.FC<PlaybookEditorProps> = ({ user }) => {
+  const [rules, setRules] = useState<DraftRule[]>(() => getPlaybook(user.id).map(toDraft));
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const problems = rules.map(rule => ruleProblem(fromDraft(rule)));
+  const hasProblems = problems.some(Boolean);
+
+  const showMessage = (text: string, error = false) => {
+    setMessage({ text, error });
+    if (!error) setTimeout(() => setMessage(null), 3000);
+  };
+
+  const updateRule = (id: string, changes: Partial<DraftRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleSave = () => {
+    if (hasProblems) return;
+    savePlaybook(user.id, rules.map(fromDraft));
+    showMessage('Playbook saved. New analyses will be checked against it.');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePlaybook(await file.text());
+      // Rules with the same ID replace the existing ones; the rest are added
+      const importedIds = new Set(imported.map(rule => rule.id));
+      setRules([...rules.filter(rule => !importedIds.has(rule.id)), ...imported.map(toDraft)]);
+      showMessage(`Imported ${imported.length} rule${imported.length === 1 ? '' : 's'}. Save to keep them.`);
+    } catch (error) {
+      console.error("Failed to import playbook", error);
+      showMessage((error as Error).message, true);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-1.5 bg-slate-800 text-slate-100 border border-slate-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm placeholder-slate-500";
+
+  return (
+    <div className="bg-slate-900 p-6 md:p-8 rounded-2xl shadow-sm border border-slate-800 space-y-6">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-slate-200 flex items-center">
+          <BookMarked className="w-5 h-5 mr-2 text-indigo-500" />
+          Playbook
+        </h4>
+        <div className="flex items-center gap-2">
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center text-xs font-medium text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg border border-slate-700"
+          >
+            <Upload className="w-3.5 h-3.5 mr-1" /> Import
+          </button>
+          <button
+            onClick={() => downloadPlaybook(rules.map(fromDraft), 'legallens-playbook.json')}
+            disabled={rules.length === 0}
+            className="flex items-center text-xs font-medium text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg border border-slate-700 disabled:opacity-50"
+          >
+            <Download className="w-3.5 h-3.5 mr-1" /> Export
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-slate-400">
+        House rules checked against every clause after analysis, such as "indemnity without a cap is High".
+        A rule matches when all of its conditions match. Results are shown next to the AI's rating, not instead of it.
+      </p>
+
+      {rules.length === 0 && (
+        <p className="text-sm text-slate-500">No rules yet.</p>
+      )}
+
+      <div className="space-y-4">
+        {rules.map((rule, index) => (
+          <div key={rule.id} className={`p-4 rounded-xl border space-y-3 ${rule.enabled ? 'bg-slate-800/50 border-slate-700' : 'bg-slate-900 border-slate-800 opacity-70'}`}>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                className="w-4 h-4 accent-indigo-500"
+                title={rule.enabled ? 'Enabled' : 'Disabled'}
+              />
+              <input
+                type="text"
+                value={rule.name}
+                onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                placeholder="Rule name, e.g. Long non-compete"
+                className={inputClass}
+              />
+              <select
+                value={rule.riskLevel}
+                onChange={(e) => updateRule(rule.id, { riskLevel: e.target.value as RiskLevel })}
+                className="px-2 py-1.5 bg-slate-800 text-slate-100 border border-slate-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+              >
+                {Object.values(RiskLevel).map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setRules(rules.filter(r => r.id !== rule.id))}
+                className="p-1.5 text-slate-500 hover:text-red-400"
+                title="Delete rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Keywords (any, comma-separated)</label>
+                <input
+                  type="text"
+                  value={rule.keywordsText}
+                  onChange={(e) => updateRule(rule.id, { keywordsText: e.target.value })}
+                  placeholder="non-compete, noncompete"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Regular expression</label>
+                <input
+                  type="text"
+                  value={rule.pattern || ''}
+                  onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                  placeholder="(1[3-9]|[2-9]\d) months"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Category</label>
+                <select
+                  value={rule.category || ''}
+                  onChange={(e) => updateRule(rule.id, { category: (e.target.value || undefined) as RiskCategory | undefined })}
+                  className={inputClass}
+                >
+                  <option value="">Any category</option>
+                  {RISK_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Message</label>
+              <input
+                type="text"
+                value={rule.message}
+                onChange={(e) => updateRule(rule.id, { message: e.target.value })}
+                placeholder="Our policy: non-competes over 12 months need partner sign-off."
+                className={inputClass}
+              />
+            </div>
+
+            {problems[index] && (
+              <p className="text-xs text-amber-400 flex items-center">
+                <AlertTriangle className="w-3.5 h-3.5 mr-1 shrink-0" /> {problems[index]}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 border-t border-slate-800 pt-6">
+        <button
+          onClick={() => setRules([...rules, toDraft(newPlaybookRule())])}
+          className="flex items-center text-sm font-medium text-indigo-400 hover:text-indigo-300 bg-indigo-900/30 px-4 py-2 rounded-lg border border-indigo-900/30"
+        >
+          <Plus className="w-4 h-4 mr-1" /> Add Rule
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={hasProblems}
+          className="bg-indigo-600 text-white px-5 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors flex items-center text-sm disabled:opacity-50"
+          title={hasProblems ? 'Fix the highlighted rules first' : undefined}
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save Playbook
+        </button>
+        {message && (
+          <span className={`text-sm font-medium animate-fade-in ${message.error ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</span>
+        )}
+      </div>
+    </div>
+  );
+};
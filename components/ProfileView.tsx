@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { User, Contract } from '../types';
 import { storageService } from '../services/storageService';
-import { User as UserIcon, Mail, Save, BarChart3, Shield, Clock, ArrowLeft } from 'lucide-react';
+import { User as UserIcon, Mail, Save, BarChart3, Shield, Clock, ArrowLeft, Languages } from 'lucide-react';
+import { UsagePanel } from './UsagePanel';
+import { PlaybookEditor } from './PlaybookEditor';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../services/languages';
 
 interface ProfileViewProps {
   user: User;
@@ -11,6 +14,7 @@ interface ProfileViewProps {
 
 export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdateUser, onBack }) => {
   const [name, setName] = useState(user.name);
+  const [outputLanguage, setOutputLanguage] = useState(user.outputLanguage || DEFAULT_LANGUAGE);
   const [contracts, setContracts] = useState<Contract[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [message, setMessage] = useState('');
@@ -25,7 +29,7 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdateUser, on
     // Simulate API call/save delay
     await new Promise(resolve => setTimeout(resolve, 600));
 
-    const updatedUser = { ...user, name };
+    const updatedUser = { ...user, name, outputLanguage };
     storageService.saveUser(updatedUser);
     storageService.setCurrentUser(updatedUser);
     onUpdateUser(updatedUser);
@@ -100,6 +104,27 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdateUser, on
                         <p className="text-xs text-slate-500 mt-1">Email address is managed by your identity provider.</p>
                     </div>
 
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Explanation Language</label>
+                        <div className="relative group">
+                            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-slate-500 group-focus-within:text-indigo-400 transition-colors">
+                                <Languages className="w-5 h-5" />
+                            </div>
+                            <select
+                                value={outputLanguage}
+                                onChange={(e) => setOutputLanguage(e.target.value)}
+                                className="appearance-none w-full pl-10 pr-4 py-2 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all cursor-pointer"
+                            >
+                                {LANGUAGES.map(language => (
+                                    <option key={language.code} value={language.code}>
+                                        {language.nativeName}{language.nativeName !== language.name ? ` (${language.name})` : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <p className="text-xs text-slate-500 mt-1">Summaries, explanations and chat answers are written in this language. Quoted contract text is never translated.</p>
+                    </div>
+
                     <div className="pt-4 flex items-center">
                         <button
                             onClick={handleSave}
@@ -153,6 +178,10 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdateUser, on
             </div>
         </div>
       </div>
+
+      <PlaybookEditor user={user} />
+
+      <UsagePanel user={user} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { CheckCircle2, PenLine, Undo2, X } from 'lucide-react';
+import { Clause, RiskLevel } from '../types';
+import { reviewClause, undoReview } from '../services/reviewQueue';
+
+interface ReviewControlsProps {
+  clause: Clause;
+  onUpdate: (updatedClause: Clause) => void;
+}
+
+export const ReviewControls: React.FC<ReviewControlsProps> = ({ clause, onUpdate }) => {
+  const [correcting, setCorrecting] = useState(false);
+  const [level, setLevel] = useState<RiskLevel>(clause.riskLevel);
+  const [note, setNote] = useState('');
+  const { review } = clause;
+
+  const handleCorrect = () => {
+    onUpdate(reviewClause(clause, 'corrected', level, note));
+    setCorrecting(false);
+    setNote('');
+  };
+
+  if (review) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <CheckCircle2 className="w-3.5 h-3.5 text-emerald-400 shrink-0" />
+        <span className="flex-1">
+          {review.status === 'corrected' && review.originalRiskLevel
+            ? <>Corrected from {review.originalRiskLevel} to {clause.riskLevel}</>
+            : <>Confirmed</>}
+          {' '}by {review.reviewer} on {new Date(review.reviewedAt).toLocaleDateString()}
+          {review.note && <span className="block text-slate-500 italic">"{review.note}"</span>}
+        </span>
+        <button
+          onClick={() => onUpdate(undoReview(clause))}
+          className="flex items-center font-medium text-slate-500 hover:text-slate-300 shrink-0"
+          title="Send back to the review queue"
+        >
+          <Undo2 className="w-3.5 h-3.5 mr-1" /> Undo
+        </button>
+      </div>
+    );
+  }
+
+  if (correcting) {
+    return (
+      <div className="flex flex-wrap items-center gap-2" onClick={(e) => e.stopPropagation()}>
+        <select
+          value={level}
+          onChange={(e) => setLevel(e.target.value as RiskLevel)}
+          className="px-2 py-1 bg-slate-950 text-slate-100 border border-slate-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-xs"
+        >
+          {Object.values(RiskLevel).map(option => (
+            <option key={option} value={option}>{option} Risk</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCorrect()}
+          placeholder="Note (optional)"
+          className="flex-1 min-w-[8rem] px-2 py-1 bg-slate-950 text-slate-100 border border-slate-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-xs placeholder-slate-500"
+        />
+        <button onClick={handleCorrect} className="text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 px-2.5 py-1 rounded-md">
+          Save
+        </button>
+        <button onClick={() => setCorrecting(false)} className="p-1 text-slate-500 hover:text-slate-300" title="Cancel">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => onUpdate(reviewClause(clause, 'confirmed'))}
+        className="flex items-center text-xs font-medium text-emerald-400 hover:bg-emerald-900/20 px-2 py-1 rounded-md border border-emerald-900/30"
+      >
+        <CheckCircle2 className="w-3.5 h-3.5 mr-1" /> Confirm
+      </button>
+      <button
+        onClick={() => { setLevel(clause.riskLevel); setCorrecting(true); }}
+        className="flex items-center text-xs font-medium text-indigo-400 hover:bg-indigo-900/20 px-2 py-1 rounded-md border border-indigo-900/30"
+      >
+        <PenLine className="w-3.5 h-3.5 mr-1" /> Correct
+      </button>
+    </div>
+  );
+};
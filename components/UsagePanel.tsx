@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import { Activity, Wallet, Save, Plus, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { ModelPrice, User } from '../types';
+import { storageService } from '../services/storageService';
+import { UsageTotals, formatCost, getBudgetStatus, getUsageSettings, saveUsageSettings, summarizeUsage } from '../services/usageService';
+
+interface UsagePanelProps {
+  user: User;
+}
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const TotalsCard: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="p-4 bg-slate-800 rounded-xl border border-slate-700">
+    <div className="text-sm text-slate-400 mb-1">{label}</div>
+    <div className="text-2xl font-bold text-slate-100">
+      {formatCost(totals.cost)}
+      {totals.unpricedCalls > 0 && <span className="text-sm text-slate-500 font-normal"> + unpriced</span>}
+    </div>
+    <div className="text-xs text-slate-500 mt-1">
+      {totals.calls} call{totals.calls === 1 ? '' : 's'} · {formatTokens(totals.inputTokens)} in / {formatTokens(totals.outputTokens)} out
+    </div>
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ user }) => {
+  const [settings, setSettings] = useState(() => getUsageSettings(user.id));
+  const [budgetInput, setBudgetInput] = useState(settings.monthlyBudget ? String(settings.monthlyBudget) : '');
+  const [prices, setPrices] = useState<Record<string, ModelPrice>>(settings.prices);
+  const [newModel, setNewModel] = useState('');
+  const [message, setMessage] = useState('');
+
+  const records = useMemo(() => storageService.getUsageRecords(user.id), [user.id]);
+  const summary = useMemo(() => summarizeUsage(records, settings.prices), [records, settings]);
+  const budget = useMemo(() => getBudgetStatus(user.id), [user.id, settings]);
+
+  // Models that were used but have no price yet are listed so they can be filled in
+  const modelNames = Array.from(new Set([...Object.keys(prices), ...records.map(r => r.model)])).sort();
+
+  const chartData = summary.daily.map(d => ({
+    name: new Date(d.day).getDate(),
+    cost: Number(d.totals.cost.toFixed(4)),
+  }));
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const current = prices[model] || { input: 0, output: 0 };
+    setPrices({ ...prices, [model]: { ...current, [field]: parseFloat(value) || 0 } });
+  };
+
+  const handleSave = () => {
+    const monthlyBudget = parseFloat(budgetInput);
+    const updated = {
+      monthlyBudget: monthlyBudget > 0 ? monthlyBudget : undefined,
+      prices,
+    };
+    saveUsageSettings(user.id, updated);
+    setSettings(updated);
+    setMessage('Usage settings saved.');
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleAddModel = () => {
+    const model = newModel.trim();
+    if (!model || prices[model]) return;
+    setPrices({ ...prices, [model]: { input: 0, output: 0 } });
+    setNewModel('');
+  };
+
+  return (
+    <div className="bg-slate-900 p-6 md:p-8 rounded-2xl shadow-sm border border-slate-800 space-y-6">
+      <h4 className="font-semibold text-slate-200 flex items-center">
+        <Activity className="w-5 h-5 mr-2 text-indigo-500" />
+        AI Usage
+      </h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <TotalsCard label="Today" totals={summary.today} />
+        <TotalsCard label="This Month" totals={summary.month} />
+        <div className="p-4 bg-slate-800 rounded-xl border border-slate-700">
+          <div className="text-sm text-slate-400 mb-1 flex items-center">
+            <Wallet className="w-4 h-4 mr-1" /> Monthly Budget
+          </div>
+          {budget ? (
+            <>
+              <div className={`text-2xl font-bold ${budget.overLimit ? 'text-red-500' : budget.nearLimit ? 'text-amber-400' : 'text-slate-100'}`}>
+                {Math.round(budget.ratio * 100)}%
+              </div>
+              <div className="w-full bg-slate-700 h-1.5 rounded-full mt-2 overflow-hidden">
+                <div
+                  className={`h-full ${budget.overLimit ? 'bg-red-500' : budget.nearLimit ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                  style={{ width: `${Math.min(100, budget.ratio * 100)}%` }}
+                />
+              </div>
+              <div className="text-xs text-slate-500 mt-1">{formatCost(budget.spent)} of ${budget.budget.toFixed(2)}</div>
+            </>
+          ) : (
+            <div className="text-sm text-slate-500 mt-2">No budget set</div>
+          )}
+        </div>
+      </div>
+
+      {budget?.overLimit && (
+        <div className="flex items-center gap-2 text-sm text-red-300 bg-red-950/30 border border-red-900/30 px-3 py-2 rounded-lg">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          This month's estimated spend has reached your budget. New analyses will ask for confirmation first.
+        </div>
+      )}
+
+      {summary.month.calls > 0 && (
+        <div>
+          <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-2">Daily Cost This Month</h5>
+          <div className="w-full h-32">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <XAxis dataKey="name" tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} />
+                <Tooltip
+                  formatter={(value: number) => [`$${value.toFixed(4)}`, 'Cost']}
+                  contentStyle={{ borderRadius: '8px', border: 'none', backgroundColor: '#1e293b', color: '#f1f5f9' }}
+                  itemStyle={{ fontSize: '12px', color: '#f1f5f9' }}
+                />
+                <Bar dataKey="cost" fill="#6366f1" radius={[3, 3, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {summary.byFunction.length > 0 && (
+        <div className="overflow-x-auto">
+          <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-2">By Feature This Month</h5>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 text-xs">
+                <th className="py-1 pr-4 font-medium">Function</th>
+                <th className="py-1 pr-4 font-medium text-right">Calls</th>
+                <th className="py-1 pr-4 font-medium text-right">Tokens in / out</th>
+                <th className="py-1 pr-4 font-medium text-right">Avg latency</th>
+                <th className="py-1 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {summary.byFunction.map(({ fn, totals, averageLatencyMs }) => (
+                <tr key={fn} className="text-slate-300">
+                  <td className="py-1.5 pr-4 font-mono text-xs">{fn}</td>
+                  <td className="py-1.5 pr-4 text-right">{totals.calls}</td>
+                  <td className="py-1.5 pr-4 text-right">{formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}</td>
+                  <td className="py-1.5 pr-4 text-right">{(averageLatencyMs / 1000).toFixed(1)}s</td>
+                  <td className="py-1.5 text-right">{totals.unpricedCalls === totals.calls ? '—' : formatCost(totals.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="border-t border-slate-800 pt-6 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Monthly budget (USD)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={budgetInput}
+            onChange={(e) => setBudgetInput(e.target.value)}
+            placeholder="No limit"
+            className="w-40 px-3 py-2 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+          />
+          <p className="text-xs text-slate-500 mt-1">A soft limit: you will be warned, not blocked.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">Prices (USD per million tokens)</label>
+          <div className="space-y-2">
+            {modelNames.map(model => (
+              <div key={model} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 font-mono text-xs text-slate-300 truncate" title={model}>{model}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={prices[model]?.input ?? ''}
+                  onChange={(e) => updatePrice(model, 'input', e.target.value)}
+                  placeholder="Input"
+                  className="w-24 px-2 py-1 bg-slate-800 text-slate-100 border border-slate-700 rounded focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={prices[model]?.output ?? ''}
+                  onChange={(e) => updatePrice(model, 'output', e.target.value)}
+                  placeholder="Output"
+                  className="w-24 px-2 py-1 bg-slate-800 text-slate-100 border border-slate-700 rounded focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              </div>
+            ))}
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="text"
+                value={newModel}
+                onChange={(e) => setNewModel(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddModel()}
+                placeholder="Add model name"
+                className="flex-1 px-2 py-1 bg-slate-800 text-slate-100 border border-slate-700 rounded focus:ring-2 focus:ring-indigo-500 outline-none placeholder-slate-500"
+              />
+              <button
+                onClick={handleAddModel}
+                disabled={!newModel.trim()}
+                className="p-1.5 text-indigo-400 hover:text-indigo-300 bg-indigo-900/30 rounded border border-indigo-900/30 disabled:opacity-50"
+                title="Add model"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500 mt-2">Costs are estimates based on these prices and the token counts reported by the AI provider.</p>
+        </div>
+
+        <div className="flex items-center">
+          <button
+            onClick={handleSave}
+            className="bg-indigo-600 text-white px-5 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors flex items-center text-sm"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save Usage Settings
+          </button>
+          {message && (
+            <span className="ml-4 text-emerald-400 text-sm font-medium animate-fade-in">{message}</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import { loadEnv } from 'vite';
+import { getAIConfig } from '../services/aiConfig';
+import { createAIProvider } from '../services/aiProvider';
+import { DEFAULT_MAX_BODY_BYTES, createProxyServer } from './proxyServer';
+
+// Entry point for `npm run server`. Reads the same .env / .env.local files as Vite;
+// real environment variables win over both.
+const fileEnv = loadEnv(process.env.NODE_ENV || 'development', process.cwd(), '');
+for (const [key, value] of Object.entries(fileEnv)) {
+  if (process.env[key] === undefined) process.env[key] = value;
+}
+
+const config = getAIConfig();
+if (config.provider === 'proxy') {
+  console.error("AI_PROVIDER=proxy is only valid in the browser. Use gemini or openai-compatible for the server.");
+  process.exit(1);
+}
+
+const port = Number(process.env.PROXY_PORT) || 3001;
+// Anyone who can reach the server can spend the key on any prompt, so only this machine by default
+const host = process.env.PROXY_HOST || '127.0.0.1';
+const maxBodyBytes = Number(process.env.PROXY_MAX_BODY_BYTES) || DEFAULT_MAX_BODY_BYTES;
+const provider = createAIProvider(config);
+
+createProxyServer({ provider, maxBodyBytes }).listen(port, host, () => {
+  console.log(`AI proxy listening on http://${host}:${port}/api (${config.provider}${provider.isConfigured() ? '' : ', no API key set'})`);
+});
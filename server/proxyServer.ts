@@ -0,0 +1,182 @@
+import http from 'node:http';
+import type { AIProvider, AITask, GenerateRequest } from '../services/aiProvider';
+import { AIServiceError, AuthError, HTTP_STATUS_BY_KIND, PayloadTooLargeError, classifyAIError } from '../services/aiErrors';
+import type { ProxyErrorBody, ProxyHealth, ProxyRequestBody, ProxyStreamChunk } from '../services/proxyProvider';
+
+// Local backend for the browser app: one POST route per AI task, with the API key
+// kept in this process. The upstream provider is injected so tests can use a stub.
+
+export const DEFAULT_MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const TASKS: AITask[] = ['analyze', 'compare', 'chat', 'clause-question'];
+// Only conversational answers are streamed
+const STREAMING_TASKS: AITask[] = ['chat', 'clause-question'];
+
+export interface ProxyServerOptions {
+  provider: AIProvider;
+  maxBodyBytes?: number;
+  // Path prefix of the routes, matching AI_PROXY_URL in the browser build
+  basePath?: string;
+}
+
+class BadRequestError extends Error {}
+
+const sendJSON = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: http.ServerResponse, error: AIServiceError) => {
+  const body: ProxyErrorBody = { error: { kind: error.kind, message: error.message } };
+  sendJSON(res, HTTP_STATUS_BY_KIND[error.kind], body);
+};
+
+const readBody = (req: http.IncomingMessage, maxBytes: number) => new Promise<string>((resolve, reject) => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > maxBytes) {
+    reject(new PayloadTooLargeError());
+    req.resume();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      reject(new PayloadTooLargeError());
+      req.removeAllListeners('data');
+      req.resume();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const parseRequest = (raw: string, task: AITask): { request: GenerateRequest; stream: boolean } => {
+  let body: ProxyRequestBody;
+  try {
+    body = JSON.parse(raw);
+  } catch (e) {
+    throw new BadRequestError('Request body must be valid JSON.');
+  }
+
+  if (!body || (typeof body.contents !== 'string' && !Array.isArray(body.contents))) {
+    throw new BadRequestError('"contents" must be a string or an array of messages.');
+  }
+  if (body.modelRole !== 'analysis' && body.modelRole !== 'chat') {
+    throw new BadRequestError('"modelRole" must be "analysis" or "chat".');
+  }
+  if (body.stream && !STREAMING_TASKS.includes(task)) {
+    throw new BadRequestError(`Streaming is not available for ${task}.`);
+  }
+
+  // Copy only known fields so the browser cannot choose a model or other upstream options
+  return {
+    request: {
+      task,
+      modelRole: body.modelRole,
+      contents: body.contents,
+      systemInstruction: typeof body.systemInstruction === 'string' ? body.systemInstruction : undefined,
+      temperature: typeof body.temperature === 'number' ? body.temperature : undefined,
+      responseSchema: body.responseSchema,
+    },
+    stream: body.stream === true,
+  };
+};
+
+const streamResponse = async (res: http.ServerResponse, provider: AIProvider, request: GenerateRequest) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const writeEvent = (data: ProxyStreamChunk | '[DONE]', event?: string) => {
+    res.write(`${event ? `event: ${event}\n` : ''}data: ${data === '[DONE]' ? data : JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const stream = provider.generateStream(request);
+    while (true) {
+      const next = await stream.next();
+      if (next.done === true) {
+        if (next.value) writeEvent({ usage: next.value });
+        break;
+      }
+      writeEvent({ text: next.value });
+    }
+    writeEvent('[DONE]');
+  } catch (error) {
+    if (request.abortSignal?.aborted) return;
+    // Headers are already sent, so the failure travels as an event
+    const aiError = classifyAIError(error);
+    console.error(`[proxy] ${request.task} stream failed:`, error);
+    writeEvent({ kind: aiError.kind, message: aiError.message }, 'error');
+  } finally {
+    res.end();
+  }
+};
+
+export const createProxyServer = (options: ProxyServerOptions): http.Server => {
+  const { provider, maxBodyBytes = DEFAULT_MAX_BODY_BYTES, basePath = '/api' } = options;
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = url.pathname.startsWith(`${basePath}/`) ? url.pathname.slice(basePath.length + 1) : '';
+
+    if (req.method === 'GET' && route === 'health') {
+      const health: ProxyHealth = {
+        provider: provider.name,
+        configured: provider.isConfigured(),
+        models: { analysis: provider.modelFor('analysis'), chat: provider.modelFor('chat') },
+      };
+      sendJSON(res, 200, health);
+      return;
+    }
+
+    const task = TASKS.find(t => t === route);
+    if (!task) {
+      sendJSON(res, 404, { error: { kind: 'unknown', message: `Unknown route ${url.pathname}` } });
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJSON(res, 405, { error: { kind: 'unknown', message: 'Use POST.' } });
+      return;
+    }
+
+    // Stop the upstream call if the browser goes away (e.g. the user pressed Stop)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const { request, stream } = parseRequest(await readBody(req, maxBodyBytes), task);
+      request.abortSignal = controller.signal;
+
+      if (!provider.isConfigured()) {
+        throw new AuthError("The AI proxy server has no API key configured. Set GEMINI_API_KEY in .env.local and restart it.");
+      }
+
+      if (stream) {
+        await streamResponse(res, provider, request);
+        return;
+      }
+
+      const response = await provider.generate(request);
+      sendJSON(res, 200, { text: response.text, model: response.model, usage: response.usage });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      if (error instanceof BadRequestError) {
+        sendJSON(res, 400, { error: { kind: 'unknown', message: error.message } });
+        return;
+      }
+      console.error(`[proxy] ${task} failed:`, error);
+      sendError(res, classifyAIError(error));
+    }
+  });
+};
@@ -0,0 +1,68 @@
+// Provider selection and model names. The browser build always uses the 'proxy' provider
+// (see vite.config.ts); the proxy server reads the rest from its own environment.
+
+export type AIProviderName = 'gemini' | 'openai-compatible' | 'proxy';
+
+// Each service call asks for a model by role rather than by name, so a backend
+// can map the cheap extraction work and the conversational work to different models.
+export type ModelRole = 'analysis' | 'chat';
+
+export interface AIConfig {
+  provider: AIProviderName;
+  apiKey: string;
+  baseUrl: string;
+  models: Record<ModelRole, string>;
+}
+
+const DEFAULT_MODELS: Record<AIProviderName, Record<ModelRole, string>> = {
+  'gemini': {
+    analysis: 'gemini-2.5-flash-lite',
+    chat: 'gemini-2.5-flash',
+  },
+  'openai-compatible': {
+    analysis: 'llama3.1',
+    chat: 'llama3.1',
+  },
+  // The proxy server picks the real model; these are only labels
+  'proxy': {
+    analysis: 'server-analysis',
+    chat: 'server-chat',
+  },
+};
+
+const parseProviderName = (value: string | undefined): AIProviderName => {
+  const normalized = (value || '').trim().toLowerCase();
+  if (normalized === 'openai' || normalized === 'openai-compatible' || normalized === 'ollama') {
+    return 'openai-compatible';
+  }
+  if (normalized === 'proxy') return 'proxy';
+  return 'gemini';
+};
+
+export const getAIConfig = (): AIConfig => {
+  const provider = parseProviderName(process.env.AI_PROVIDER);
+  const defaults = DEFAULT_MODELS[provider];
+
+  // Only AI_PROXY_URL is defined in the browser bundle, so nothing else may be read here
+  if (provider === 'proxy') {
+    return {
+      provider,
+      apiKey: '',
+      baseUrl: process.env.AI_PROXY_URL || '/api',
+      models: defaults,
+    };
+  }
+
+  return {
+    provider,
+    apiKey: provider === 'gemini'
+      ? process.env.API_KEY || process.env.GEMINI_API_KEY || ''
+      : process.env.AI_API_KEY || '',
+    // For Gemini an empty base URL means the public endpoint; tests can point it at a stub
+    baseUrl: process.env.AI_BASE_URL || (provider === 'openai-compatible' ? 'http://localhost:11434/v1' : ''),
+    models: {
+      analysis: process.env.AI_MODEL_ANALYSIS || defaults.analysis,
+      chat: process.env.AI_MODEL_CHAT || defaults.chat,
+    },
+  };
+};
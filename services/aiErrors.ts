@@ -0,0 +1,232 @@
+// Typed errors for AI calls, plus retry with jittered exponential backoff.
+
+export type AIErrorKind =
+  | 'quota'
+  | 'auth'
+  | 'payload-too-large'
+  | 'safety-blocked'
+  | 'transient'
+  | 'parse'
+  | 'unknown';
+
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: AIErrorKind, message: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export class QuotaError extends AIServiceError {
+  constructor(message = "AI usage limit exceeded. Please try again in a few moments.", cause?: unknown) {
+    super('quota', message, { retryable: true, cause });
+    this.name = 'QuotaError';
+  }
+}
+
+export class AuthError extends AIServiceError {
+  constructor(message = "Authentication failed. Please check the system configuration.", cause?: unknown) {
+    super('auth', message, { cause });
+    this.name = 'AuthError';
+  }
+}
+
+export class PayloadTooLargeError extends AIServiceError {
+  constructor(message = "The document is too large for the AI to process.", cause?: unknown) {
+    super('payload-too-large', message, { cause });
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class SafetyBlockedError extends AIServiceError {
+  constructor(message = "The document was flagged by safety settings and could not be analyzed.", cause?: unknown) {
+    super('safety-blocked', message, { cause });
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class TransientError extends AIServiceError {
+  constructor(message = "AI service is temporarily unavailable. Please retry.", cause?: unknown) {
+    super('transient', message, { retryable: true, cause });
+    this.name = 'TransientError';
+  }
+}
+
+export class ParseError extends AIServiceError {
+  constructor(message = "Received an invalid response format from AI. Please retry.", cause?: unknown) {
+    super('parse', message, { cause });
+    this.name = 'ParseError';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only explicit status fields count: numbers in a message ("file is 413 KB") are not status codes
+const statusOf = (error: unknown): number | null => {
+  if (!isObject(error)) return null;
+  if (typeof error.status === 'number') return error.status;
+  if (typeof error.code === 'number') return error.code;
+  return null;
+};
+
+// Maps SDK, HTTP and network failures onto the typed errors above.
+export const classifyAIError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) return error;
+
+  const message = isObject(error) && typeof error.message === 'string' ? error.message : '';
+  const msg = message.toLowerCase();
+  const status = statusOf(error);
+
+  if (status === 429 || msg.includes('quota') || msg.includes('resource exhausted') || msg.includes('rate limit')) {
+    return new QuotaError(undefined, error);
+  }
+  if (status === 401 || status === 403 || msg.includes('api key') || msg.includes('permission')) {
+    return new AuthError(undefined, error);
+  }
+  if (status === 413 || msg.includes('too large') || msg.includes('exceeds the maximum')) {
+    return new PayloadTooLargeError(undefined, error);
+  }
+  if (msg.includes('safety') || msg.includes('blocked')) {
+    return new SafetyBlockedError(undefined, error);
+  }
+  if (
+    (status !== null && status >= 500) ||
+    msg.includes('overloaded') || msg.includes('unavailable') || msg.includes('timeout') ||
+    msg.includes('failed to fetch') || msg.includes('network')
+  ) {
+    return new TransientError(undefined, error);
+  }
+  if (msg.includes('json') || msg.includes('parse')) {
+    return new ParseError(undefined, error);
+  }
+
+  return new AIServiceError('unknown', message ? `Processing failed: ${message}` : "An unexpected error occurred during processing.", { cause: error });
+};
+
+// Rebuilds a typed error from its kind, e.g. after it crossed the proxy as JSON.
+export const createAIError = (kind: AIErrorKind, message?: string): AIServiceError => {
+  switch (kind) {
+    case 'quota': return new QuotaError(message);
+    case 'auth': return new AuthError(message);
+    case 'payload-too-large': return new PayloadTooLargeError(message);
+    case 'safety-blocked': return new SafetyBlockedError(message);
+    case 'transient': return new TransientError(message);
+    case 'parse': return new ParseError(message);
+    default: return new AIServiceError('unknown', message || "An unexpected error occurred during processing.");
+  }
+};
+
+// HTTP status the proxy server answers with for each kind of failure.
+export const HTTP_STATUS_BY_KIND: Record<AIErrorKind, number> = {
+  'quota': 429,
+  'auth': 401,
+  'payload-too-large': 413,
+  'safety-blocked': 422,
+  'transient': 503,
+  'parse': 502,
+  'unknown': 500,
+};
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  // Extra veto, e.g. a stream that already delivered text must not be replayed
+  shouldRetry?: (error: AIServiceError) => boolean;
+  onRetry?: (error: AIServiceError, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// "Full jitter" backoff: a random delay between 0 and the exponential cap.
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number =>
+  Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+// Retries quota and transient failures; everything else is thrown straight away as a typed error.
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 15000, signal, shouldRetry, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+
+      const aiError = classifyAIError(error);
+      const canRetry = aiError.retryable && (!shouldRetry || shouldRetry(aiError));
+      if (!canRetry || attempt + 1 >= maxAttempts) throw aiError;
+
+      const delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      console.warn(`AI call failed (${aiError.kind}), retrying in ${delayMs}ms`, error);
+      onRetry?.(aiError, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+export interface RecoveryHint {
+  title: string;
+  hint: string;
+  canRetry: boolean;
+}
+
+export const RECOVERY_HINTS: Record<AIErrorKind, RecoveryHint> = {
+  'quota': {
+    title: 'Usage limit reached',
+    hint: 'The AI service is receiving too many requests. Wait a minute, then try again.',
+    canRetry: true,
+  },
+  'auth': {
+    title: 'AI service not authorized',
+    hint: 'The API key is missing or invalid. Check the key in your .env.local file and restart the app.',
+    canRetry: false,
+  },
+  'payload-too-large': {
+    title: 'Document too large',
+    hint: 'Try a smaller file, fewer pages, or a lower-resolution scan.',
+    canRetry: false,
+  },
+  'safety-blocked': {
+    title: 'Blocked by safety filters',
+    hint: 'The content was flagged by the AI provider. Try rephrasing, or review this document manually.',
+    canRetry: false,
+  },
+  'transient': {
+    title: 'Connection problem',
+    hint: 'The AI service is temporarily unavailable. Retrying usually fixes this.',
+    canRetry: true,
+  },
+  'parse': {
+    title: 'Unexpected AI response',
+    hint: 'The AI returned a malformed answer. Running it again usually works.',
+    canRetry: true,
+  },
+  'unknown': {
+    title: 'Something went wrong',
+    hint: 'An unexpected error occurred. You can try again.',
+    canRetry: true,
+  },
+};
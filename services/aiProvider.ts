@@ -0,0 +1,82 @@
+import type { Schema } from "@google/genai";
+import type { TokenUsage } from "../types";
+import { AIConfig, AIProviderName, ModelRole, getAIConfig } from "./aiConfig";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createProxyProvider } from "./proxyProvider";
+
+export interface AIPart {
+  text?: string;
+  inlineData?: {
+    mimeType: string;
+    data: string; // Base64
+  };
+}
+
+export interface AIContent {
+  role: 'user' | 'model';
+  parts: AIPart[];
+}
+
+// The app-level operation a request belongs to. The proxy server exposes one route per task.
+export type AITask = 'analyze' | 'compare' | 'chat' | 'clause-question';
+
+export interface GenerateRequest {
+  task: AITask;
+  modelRole: ModelRole;
+  // A plain string is treated as a single user turn.
+  contents: AIContent[] | string;
+  systemInstruction?: string;
+  temperature?: number;
+  // When set, the provider must return JSON matching this schema.
+  // Schemas are written in the Gemini format; other backends translate them.
+  responseSchema?: Schema;
+  abortSignal?: AbortSignal;
+  // Called once the request has been sent, so the caller can tell uploading from waiting for the model.
+  // Providers that cannot see the upload finish call it as soon as the request is dispatched.
+  onSent?: () => void;
+}
+
+export interface GenerateResponse {
+  text: string | undefined;
+  model: string;
+  usage?: TokenUsage; // Missing when the backend does not report token counts
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  isConfigured: () => boolean;
+  modelFor: (role: ModelRole) => string;
+  // Like modelFor, but asks the backend when the model is chosen elsewhere (the proxy server)
+  resolveModel: (role: ModelRole) => Promise<string>;
+  generate: (request: GenerateRequest) => Promise<GenerateResponse>;
+  // Yields text deltas as they arrive and returns the token usage, if reported.
+  // Aborting the signal ends the stream with an error.
+  generateStream: (request: GenerateRequest) => AsyncGenerator<string, TokenUsage | undefined>;
+}
+
+export const createAIProvider = (config: AIConfig): AIProvider => {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config);
+    case 'proxy':
+      return createProxyProvider(config);
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createAIProvider(getAIConfig());
+  }
+  return activeProvider;
+};
+
+// Lets tests and local tooling swap in a stand-in backend.
+export const setAIProvider = (provider: AIProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,40 @@
+import { AnalysisCacheEntry, ContractAnalysis } from "../types";
+import { base64ToBytes } from "./base64";
+import { storageService } from "./storageService";
+
+// Reuses analyses of identical files. Entries are keyed by the SHA-256 of the file bytes
+// plus the model and prompt version, so changing either produces a fresh analysis.
+
+// Web Crypto is only available in secure contexts (https or localhost); without it nothing is cached
+export const hashContent = async (base64Data: string): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', base64ToBytes(base64Data));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const cacheKey = (contentHash: string, model: string, promptVersion: string) =>
+  `${contentHash}:${model}:${promptVersion}`;
+
+export const getCachedAnalysis = (
+  contentHash: string,
+  model: string,
+  promptVersion: string
+): AnalysisCacheEntry | null => storageService.getCachedAnalysis(cacheKey(contentHash, model, promptVersion));
+
+export const cacheAnalysis = (
+  contentHash: string,
+  model: string,
+  promptVersion: string,
+  analysis: ContractAnalysis
+) => {
+  // Q&A history and cache markers belong to a contract, not to the file's analysis
+  const { cachedAt, ...rest } = analysis;
+  storageService.saveCachedAnalysis({
+    key: cacheKey(contentHash, model, promptVersion),
+    contentHash,
+    model,
+    promptVersion,
+    analysis: { ...rest, clauses: rest.clauses.map(({ conversationHistory, ...clause }) => clause) },
+    createdAt: Date.now(),
+  });
+};
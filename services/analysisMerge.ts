@@ -0,0 +1,111 @@
+import { Clause, ContractAnalysis, ContractType, RiskLevel } from "../types";
+import { mergeKeyFacts } from "./keyFacts";
+import { computeRiskScore } from "./ruleBasedAnalyzer";
+import { PAGE_BREAK } from "./clauseAnchors";
+
+// Reduce step of the section-by-section analysis: combines per-section results
+// into a single ContractAnalysis.
+
+const RISK_ORDER: Record<RiskLevel, number> = {
+  [RiskLevel.LOW]: 0,
+  [RiskLevel.MEDIUM]: 1,
+  [RiskLevel.HIGH]: 2,
+};
+
+// Only clauses this close to a section boundary are compared
+const BOUNDARY_CLAUSES = 2;
+// Share of the shorter clause's words that must appear in the other one
+const MIN_OVERLAP = 0.8;
+// Fragments shorter than this must match exactly
+const MIN_WORDS = 4;
+
+const clauseWords = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim().split(' ').filter(Boolean);
+
+const isSameClause = (a: Clause, b: Clause): boolean => {
+  const [shorter, longer] = [clauseWords(a.text), clauseWords(b.text)].sort((x, y) => x.length - y.length);
+  if (shorter.length === 0) return false;
+  if (shorter.length < MIN_WORDS) return shorter.join(' ') === longer.join(' ');
+  const words = new Set(longer);
+  return shorter.filter(word => words.has(word)).length / shorter.length >= MIN_OVERLAP;
+};
+
+// Sections do not overlap, but a clause cut by a section boundary can be reported by both
+// sections, once cut short. Only the last clauses of one section and the first of the next
+// are compared; the longer copy is kept whole, so its text and explanation still belong together.
+const dedupeClauses = (sections: Clause[][]): Clause[] => {
+  const clauses: Clause[] = [];
+  let previousTail: number[] = [];
+
+  sections.forEach(sectionClauses => {
+    const added: number[] = [];
+    sectionClauses.forEach((clause, index) => {
+      const duplicate = index < BOUNDARY_CLAUSES
+        ? previousTail.find(i => isSameClause(clauses[i], clause))
+        : undefined;
+      if (duplicate === undefined) {
+        added.push(clauses.push(clause) - 1);
+      } else if (clause.text.length > clauses[duplicate].text.length) {
+        clauses[duplicate] = clause;
+      }
+    });
+    previousTail = added.slice(-BOUNDARY_CLAUSES);
+  });
+
+  // Section results all number their clauses from 1, so issue fresh IDs
+  return clauses.map((clause, index) => ({ ...clause, id: `clause-${index + 1}` }));
+};
+
+// Score bands used by the analysis prompt: High >70, Medium 40-70, Low <40.
+const clampToBand = (score: number, level: RiskLevel): number => {
+  switch (level) {
+    case RiskLevel.HIGH: return Math.max(71, Math.min(100, score));
+    case RiskLevel.MEDIUM: return Math.max(40, Math.min(70, score));
+    default: return Math.max(0, Math.min(39, score));
+  }
+};
+
+// Sections such as signature pages often look like no particular type, so the most common specific type wins
+const mergeContractType = (parts: ContractAnalysis[]): ContractType | undefined => {
+  const types = parts.map(part => part.contractType).filter((type): type is ContractType => !!type);
+  const specific = types.filter(type => type !== ContractType.OTHER);
+  if (specific.length === 0) return types[0];
+  const counts = new Map<ContractType, number>();
+  specific.forEach(type => counts.set(type, (counts.get(type) || 0) + 1));
+  return specific.reduce((best, type) => (counts.get(type)! > counts.get(best)! ? type : best));
+};
+
+export const mergeAnalyses = (parts: ContractAnalysis[]): ContractAnalysis => {
+  if (parts.length === 1) return parts[0];
+
+  const clauses = dedupeClauses(parts.map(part => part.clauses || []));
+
+  // The riskiest section decides the overall level, backed by the merged clauses
+  const levels = [...parts.map(part => part.overallRisk), ...clauses.map(clause => clause.riskLevel)];
+  const overallRisk = levels.reduce<RiskLevel>(
+    (worst, level) => (RISK_ORDER[level] > RISK_ORDER[worst] ? level : worst),
+    RiskLevel.LOW
+  );
+
+  // Scored again from the merged clauses, kept inside the band of the overall level
+  const legalParts = parts.filter(part => (part.riskScore || 0) > 0 || part.clauses.length > 0);
+  const riskScore = legalParts.length === 0
+    ? 0
+    : clampToBand(computeRiskScore(clauses), overallRisk);
+
+  return {
+    summary: parts.map(part => part.summary).filter(Boolean).join('\n\n'),
+    overallRisk,
+    riskScore,
+    clauses,
+    // PDF sections start on a new page; empty ones are kept so page numbers stay right
+    fullText: parts.some(part => part.fullText) ? parts.map(part => part.fullText || '').join(PAGE_BREAK) : undefined,
+    keyFacts: mergeKeyFacts(parts.map(part => part.keyFacts)),
+    // A document is only as readable as its worst section
+    confidence: parts.some(part => part.confidence !== undefined)
+      ? Math.min(...parts.map(part => part.confidence ?? 1))
+      : undefined,
+    contractType: mergeContractType(parts),
+    sourceLanguage: parts.find(part => part.sourceLanguage)?.sourceLanguage,
+  };
+};
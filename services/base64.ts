@@ -0,0 +1,20 @@
+// Browser-safe Base64 helpers for the file payloads we pass around.
+
+export const base64ToBytes = (base64Data: string): Uint8Array =>
+  Uint8Array.from(atob(base64Data), char => char.charCodeAt(0));
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  // Build the binary string in slices to avoid call stack limits on large files
+  let binary = '';
+  const sliceSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += sliceSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + sliceSize));
+  }
+  return btoa(binary);
+};
+
+export const decodeBase64Text = (base64Data: string): string =>
+  new TextDecoder().decode(base64ToBytes(base64Data));
+
+export const encodeBase64Text = (text: string): string =>
+  bytesToBase64(new TextEncoder().encode(text));
@@ -0,0 +1,40 @@
+// The app's IndexedDB database, for data too big for localStorage: queued uploads and original files.
+
+const DB_NAME = 'legallens';
+const DB_VERSION = 2;
+
+export const STORES = {
+  UPLOAD_JOBS: 'upload_jobs',
+  SOURCE_FILES: 'source_files', // Original photos of combined documents, keyed by contract and page
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise = dbPromise || new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.UPLOAD_JOBS)) db.createObjectStore(STORES.UPLOAD_JOBS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(STORES.SOURCE_FILES)) db.createObjectStore(STORES.SOURCE_FILES);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call try again instead of reusing the failure
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const runInStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,146 @@
+import { ContractAnalysis, ContractType, MissingProtection, RiskLevel } from "../types";
+import { detectContractType } from "./contractTypes";
+
+// Protections each type of contract is expected to contain. A protection counts as present
+// when any of its patterns matches the document text, so the checklists are English-only.
+
+interface ProtectionCheck {
+  id: string;
+  label: string;
+  description: string;
+  importance: MissingProtection['importance'];
+  patterns: RegExp[];
+}
+
+const RISK_POINTS: Record<MissingProtection['importance'], number> = {
+  essential: 6,
+  recommended: 2,
+};
+
+// Missing protections can move a contract up a band, but never dominate the clause findings
+const MAX_MISSING_POINTS = 20;
+
+const check = (
+  id: string,
+  label: string,
+  description: string,
+  patterns: RegExp[],
+  importance: MissingProtection['importance'] = 'essential'
+): ProtectionCheck => ({ id, label, description, importance, patterns });
+
+const LIABILITY_CAP = check(
+  'liability-cap', 'Limitation of liability',
+  'Without a cap, the amount you could owe if something goes wrong has no upper limit.',
+  [/limitation of liability/i, /limit(s|ed)? (of |on )?(its |their |the |either party's )?liability/i, /liability[^.]{0,80}(shall not exceed|exceed the|capped|limited to)/i, /aggregate liability/i]
+);
+const TERMINATION = check(
+  'termination', 'Termination',
+  'The agreement should say how and when each side can end it.',
+  [/terminat(e|es|ed|ion)/i, /cancel(s|led|lation)?\b/i]
+);
+const GOVERNING_LAW = check(
+  'governing-law', 'Governing law',
+  'Naming the applicable law avoids arguing over which rules apply in a dispute.',
+  [/governing law/i, /governed by[^.]{0,40}laws?/i, /laws of the (state|province|country|commonwealth) of/i],
+  'recommended'
+);
+const DISPUTE_RESOLUTION = check(
+  'dispute-resolution', 'Dispute resolution',
+  'A clear process (courts, mediation or arbitration) makes disagreements cheaper to settle.',
+  [/dispute/i, /arbitrat(ion|or)/i, /mediation/i, /jurisdiction/i],
+  'recommended'
+);
+const CONFIDENTIALITY = check(
+  'confidentiality', 'Confidentiality',
+  'Sensitive information shared under the agreement should be protected.',
+  [/confidential/i],
+  'recommended'
+);
+
+const GENERAL = [GOVERNING_LAW, DISPUTE_RESOLUTION];
+
+export const CHECKLISTS: Record<ContractType, ProtectionCheck[]> = {
+  [ContractType.LEASE]: [
+    TERMINATION,
+    check('security-deposit', 'Security deposit return', 'The lease should say when and how the deposit is returned.', [/deposit[^.]{0,120}(return|refund)/i, /(return|refund)[^.]{0,80}deposit/i]),
+    check('repairs', 'Repairs and maintenance', 'It should be clear who pays for repairs to the property.', [/repair/i, /maint(ain|enance)/i]),
+    check('rent-increases', 'Rent increase terms', 'Without limits, rent could be raised at any time or by any amount.', [/rent[^.]{0,80}(increase|adjust|review|escalat)/i, /(increase|adjust|review)[^.]{0,40}\brent\b/i], 'recommended'),
+    check('entry-notice', 'Notice before entry', 'The landlord should give notice before entering the property.', [/(enter|entry|access|inspect)[^.]{0,100}notice/i, /notice[^.]{0,100}(enter|entry|access|inspect)/i], 'recommended'),
+    ...GENERAL,
+  ],
+  [ContractType.NDA]: [
+    check('confidential-definition', 'Definition of confidential information', 'A vague definition can make almost anything you learn confidential.', [/confidential information["”']?\)?\s*(means|shall mean|includes|refers to)/i, /definition of confidential/i]),
+    check('exclusions', 'Standard exclusions', 'Public or already-known information should not be covered.', [/public(ly)? (domain|available|known)/i, /already (known|in (its|the recipient's) possession)/i, /independently developed/i, /rightfully (received|obtained)/i]),
+    check('confidentiality-term', 'Confidentiality term', 'Obligations with no end date can bind you indefinitely.', [/(period|term) of \w+\s*(\(\d+\)\s*)?(years?|months?)/i, /for \w+\s*(\(\d+\)\s*)?(years?|months?) (after|following|from)/i, /surviv(e|es|al)[^.]{0,80}(years?|months?)/i]),
+    check('return-destroy', 'Return or destruction of materials', 'It should be clear what happens to shared materials when the agreement ends.', [/(return|destroy|destruction)[^.]{0,100}(confidential|information|materials|documents)/i], 'recommended'),
+    check('legal-disclosure', 'Disclosure required by law', 'You should be allowed to disclose information when a court or law requires it.', [/required (to be disclosed )?by (law|court|regulation|a court)/i, /compelled/i, /court order/i], 'recommended'),
+    ...GENERAL,
+  ],
+  [ContractType.EMPLOYMENT]: [
+    check('compensation', 'Compensation', 'Pay, and when it is paid, should be stated.', [/salary/i, /wages?\b/i, /compensation/i, /remuneration/i]),
+    { ...TERMINATION, description: 'It should say how either side can end the employment and how much notice is needed.' },
+    check('working-hours', 'Working hours', 'Expected hours and overtime rules protect against unpaid extra work.', [/(working|work) hours/i, /hours (of|per) (work|week)/i, /overtime/i], 'recommended'),
+    check('leave', 'Holidays and leave', 'Paid holiday and sick leave entitlements should be spelled out.', [/vacation/i, /holiday/i, /paid time off/i, /annual leave/i, /sick (leave|pay)/i], 'recommended'),
+    CONFIDENTIALITY,
+    ...GENERAL,
+  ],
+  [ContractType.SAAS]: [
+    LIABILITY_CAP,
+    TERMINATION,
+    check('data-protection', 'Data protection', 'The provider should commit to protecting your personal data.', [/personal (data|information)/i, /data protection/i, /privacy/i, /\bgdpr\b/i]),
+    check('service-levels', 'Service levels', 'Uptime commitments give you a remedy when the service is down.', [/service level/i, /uptime/i, /availability/i, /\bsla\b/i], 'recommended'),
+    check('data-export', 'Data export on exit', 'You should be able to get your data back when you leave.', [/(export|return|retriev|download)[^.]{0,80}(data|content)/i], 'recommended'),
+    check('price-changes', 'Notice of price changes', 'Prices should not change without warning.', [/(price|fee)s?[^.]{0,80}(change|increase)[^.]{0,80}notice/i, /notice[^.]{0,80}(price|fee)s?[^.]{0,40}(change|increase)/i], 'recommended'),
+    ...GENERAL,
+  ],
+  [ContractType.LOAN]: [
+    check('interest-rate', 'Interest rate', 'The cost of borrowing should be stated clearly.', [/interest rate/i, /per annum/i, /\bapr\b/i, /annual percentage/i]),
+    check('repayment-schedule', 'Repayment schedule', 'You should know exactly when and how much to repay.', [/repayment/i, /instal(l)?ments?/i, /amortiz/i]),
+    check('default-terms', 'Events of default', 'What counts as a default decides when the lender can demand everything back.', [/event(s)? of default/i, /\bdefault\b/i]),
+    check('cure-period', 'Cure period', 'A grace period lets you fix a missed payment before penalties apply.', [/cure/i, /grace period/i, /remed(y|ied)[^.]{0,60}(default|breach)/i], 'recommended'),
+    check('prepayment', 'Early repayment', 'You should be able to repay early without a heavy penalty.', [/prepay/i, /early repayment/i, /repa(y|id)[^.]{0,40}early/i], 'recommended'),
+    ...GENERAL,
+  ],
+  [ContractType.SERVICES]: [
+    check('scope', 'Scope of work', 'A defined scope prevents disputes about what was promised.', [/scope of (work|services)/i, /statement of work/i, /deliverables/i, /services (shall|will) (include|consist)/i, /description of (the )?services/i]),
+    check('payment-terms', 'Payment terms', 'Amounts and due dates should be agreed up front.', [/payment/i, /invoice/i, /\bfees?\b/i]),
+    LIABILITY_CAP,
+    TERMINATION,
+    check('ip-ownership', 'Ownership of work product', 'It should be clear who owns what is created under the agreement.', [/intellectual property/i, /work product/i, /ownership/i], 'recommended'),
+    check('warranty', 'Quality warranty', 'A warranty gives you a remedy if the work is defective.', [/warrant/i], 'recommended'),
+    ...GENERAL,
+  ],
+  [ContractType.OTHER]: [
+    { ...TERMINATION, importance: 'recommended' },
+    { ...LIABILITY_CAP, importance: 'recommended' },
+    ...GENERAL,
+  ],
+};
+
+export const findMissingProtections = (text: string, type: ContractType): MissingProtection[] =>
+  CHECKLISTS[type]
+    .filter(protection => !protection.patterns.some(pattern => pattern.test(text)))
+    .map(({ id, label, description, importance }) => ({ id, label, description, importance, riskPoints: RISK_POINTS[importance] }));
+
+const levelForScore = (score: number): RiskLevel =>
+  score > 70 ? RiskLevel.HIGH : score >= 40 ? RiskLevel.MEDIUM : RiskLevel.LOW;
+
+const RISK_ORDER = [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH];
+
+// Runs the checklist for the document's type and adds the missing protections to the score.
+// Skipped for documents the checklists can't read and for documents with no legal content.
+export const applyChecklist = (analysis: ContractAnalysis): ContractAnalysis => {
+  const text = analysis.fullText;
+  const isLegal = (analysis.riskScore || 0) > 0 || analysis.clauses.length > 0;
+  const english = !analysis.sourceLanguage || analysis.sourceLanguage === 'en';
+  if (!text || !isLegal || !english) return analysis;
+
+  const contractType = analysis.contractType || detectContractType(text);
+  const missingProtections = findMissingProtections(text, contractType);
+  const points = Math.min(MAX_MISSING_POINTS, missingProtections.reduce((sum, missing) => sum + missing.riskPoints, 0));
+  const riskScore = Math.min(100, (analysis.riskScore || 0) + points);
+  const scoreLevel = levelForScore(riskScore);
+  const overallRisk = RISK_ORDER.indexOf(scoreLevel) > RISK_ORDER.indexOf(analysis.overallRisk) ? scoreLevel : analysis.overallRisk;
+
+  return { ...analysis, contractType, missingProtections, riskScore, overallRisk };
+};
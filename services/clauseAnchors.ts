@@ -0,0 +1,112 @@
+import { Clause } from "../types";
+
+// Finds where each clause sits in the analysis fullText. The model quotes clauses loosely
+// (changed whitespace, dropped punctuation, small OCR differences), so matching is done on
+// lowercase words rather than raw characters.
+
+// Share of a clause's words that must appear in one window of the document
+const MIN_MATCH_RATIO = 0.6;
+
+// Page breaks in fullText are marked with form feeds; text without them has no page numbers
+export const PAGE_BREAK = '\f';
+
+interface Word {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface ClauseLocation {
+  start: number;
+  end: number;
+}
+
+const toWords = (text: string): Word[] =>
+  Array.from(text.matchAll(/[a-z0-9]+/gi), match => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+const findExact = (docWords: Word[], clauseWords: string[]): ClauseLocation | null => {
+  const n = clauseWords.length;
+  for (let i = 0; i + n <= docWords.length; i++) {
+    let j = 0;
+    while (j < n && docWords[i + j].word === clauseWords[j]) j++;
+    if (j === n) return { start: docWords[i].start, end: docWords[i + n - 1].end };
+  }
+  return null;
+};
+
+// Slides a window the length of the clause over the document, counting shared words
+const findFuzzy = (docWords: Word[], clauseWords: string[]): ClauseLocation | null => {
+  const n = clauseWords.length;
+  if (docWords.length < n) return null;
+
+  const needed = new Map<string, number>();
+  clauseWords.forEach(word => needed.set(word, (needed.get(word) || 0) + 1));
+
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  let best = { matched: 0, index: 0 };
+
+  const add = (word: string) => {
+    const count = inWindow.get(word) || 0;
+    if (count < (needed.get(word) || 0)) matched++;
+    inWindow.set(word, count + 1);
+  };
+  const remove = (word: string) => {
+    const count = (inWindow.get(word) || 0) - 1;
+    inWindow.set(word, count);
+    if (count < (needed.get(word) || 0)) matched--;
+  };
+
+  for (let i = 0; i < docWords.length; i++) {
+    add(docWords[i].word);
+    if (i >= n) remove(docWords[i - n].word);
+    if (i >= n - 1 && matched > best.matched) {
+      best = { matched, index: i - n + 1 };
+    }
+  }
+
+  if (best.matched / n < MIN_MATCH_RATIO) return null;
+
+  // Trim unrelated words at the window edges
+  let first = best.index;
+  let last = best.index + n - 1;
+  while (first < last && !needed.has(docWords[first].word)) first++;
+  while (last > first && !needed.has(docWords[last].word)) last--;
+  return { start: docWords[first].start, end: docWords[last].end };
+};
+
+export const locateClause = (fullText: string, clauseText: string, docWords: Word[] = toWords(fullText)): ClauseLocation | null => {
+  const clauseWords = toWords(clauseText).map(w => w.word);
+  if (clauseWords.length === 0) return null;
+  return findExact(docWords, clauseWords) || findFuzzy(docWords, clauseWords);
+};
+
+// 1-based page of an offset, or undefined when the text has no page breaks
+export const pageAt = (fullText: string, offset: number): number | undefined => {
+  if (!fullText.includes(PAGE_BREAK)) return undefined;
+  return fullText.slice(0, offset).split(PAGE_BREAK).length;
+};
+
+// Sets startOffset/endOffset/page on every clause that can be found; clears them on the rest
+export const anchorClauses = (clauses: Clause[], fullText: string | undefined): Clause[] => {
+  const docWords = fullText ? toWords(fullText) : [];
+
+  return clauses.map(clause => {
+    const { startOffset, endOffset, page, ...rest } = clause;
+    const location = fullText ? locateClause(fullText, clause.text, docWords) : null;
+    if (!fullText || !location) return rest;
+    return {
+      ...rest,
+      startOffset: location.start,
+      endOffset: location.end,
+      page: pageAt(fullText, location.start),
+    };
+  });
+};
+
+export const isAnchored = (clause: Clause): boolean =>
+  typeof clause.startOffset === 'number' && typeof clause.endOffset === 'number';
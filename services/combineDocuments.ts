@@ -0,0 +1,98 @@
+import { PDFDocument } from 'pdf-lib';
+import { SourcePage } from '../types';
+import { bytesToBase64 } from './base64';
+
+// Photos of a paper contract (and PDFs) joined into one PDF, so the pages are analyzed as one document.
+// Photos are redrawn through a canvas first: that applies their EXIF rotation and shrinks them.
+
+export const COMBINABLE_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+// Longest side of a photo after shrinking; enough to read small print
+const MAX_IMAGE_SIDE = 2000;
+const JPEG_QUALITY = 0.85;
+// A4 width in points. Pages keep the photo's aspect ratio.
+const PAGE_WIDTH = 595;
+
+// One page of a combined document: a photo, or one page of a PDF
+export interface CombinedPart {
+  file: File;
+  page?: number; // 1-based, for PDFs. Unset means every page of the file.
+}
+
+export interface CombinedDocument {
+  base64Data: string;
+  sourcePages: SourcePage[];
+  pageFiles: File[]; // The file each page came from, in page order
+}
+
+const loadPdf = async (file: File) =>
+  PDFDocument.load(new Uint8Array(await file.arrayBuffer()), { ignoreEncryption: true });
+
+// A PDF becomes one part per page so its pages can be reordered among the others
+export const toCombinedParts = async (file: File): Promise<CombinedPart[]> => {
+  if (file.type !== 'application/pdf') return [{ file }];
+  try {
+    const pageCount = (await loadPdf(file)).getPageCount();
+    return Array.from({ length: pageCount }, (_, index) => ({ file, page: index + 1 }));
+  } catch (error) {
+    // Combining reports the damaged file by name later
+    console.warn("Could not count the pages of", file.name, error);
+    return [{ file }];
+  }
+};
+
+const toJpeg = async (file: File): Promise<{ bytes: Uint8Array; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  // JPEG has no transparency; keep see-through PNG areas white rather than black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error("Could not encode the image");
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+};
+
+// Pages appear in the order of parts. Pages of PDFs are copied as they are.
+export const combineIntoPdf = async (parts: CombinedPart[]): Promise<CombinedDocument> => {
+  // No creation or modification dates, so the same parts give the same bytes and the analysis cache can match them
+  const combined = await PDFDocument.create({ updateMetadata: false });
+  const sourcePages: SourcePage[] = [];
+  const pageFiles: File[] = [];
+  const sources = new Map<File, PDFDocument>();
+
+  for (const { file, page } of parts) {
+    try {
+      if (file.type === 'application/pdf') {
+        const source = sources.get(file) || await loadPdf(file);
+        sources.set(file, source);
+        const indices = page ? [page - 1] : source.getPageIndices();
+        const pages = await combined.copyPages(source, indices);
+        pages.forEach((copy, i) => {
+          combined.addPage(copy);
+          sourcePages.push({ fileName: file.name, mimeType: file.type, page: indices[i] + 1 });
+          pageFiles.push(file);
+        });
+      } else {
+        const { bytes, width, height } = await toJpeg(file);
+        const image = await combined.embedJpg(bytes);
+        const pdfPage = combined.addPage([PAGE_WIDTH, PAGE_WIDTH * height / width]);
+        pdfPage.drawImage(image, { x: 0, y: 0, width: pdfPage.getWidth(), height: pdfPage.getHeight() });
+        sourcePages.push({ fileName: file.name, mimeType: file.type });
+        pageFiles.push(file);
+      }
+    } catch (error) {
+      console.error("Failed to add file to combined document", file.name, error);
+      throw new Error(`"${file.name}" could not be added to the combined document. It may be damaged or password-protected.`);
+    }
+  }
+
+  return { base64Data: bytesToBase64(await combined.save()), sourcePages, pageFiles };
+};
@@ -0,0 +1,113 @@
+import { Contract, ContractType } from "../types";
+
+export const CONTRACT_TYPES = Object.values(ContractType) as ContractType[];
+
+// How the general HIGH/MEDIUM/LOW criteria shift for each type of contract. The guidance is
+// given to the model; longNoticeDays is the longest notice period that is still normal, and the
+// offline rules flag anything longer, as the guidance does.
+export interface ContractRubric {
+  guidance: string[];
+  longNoticeDays: number;
+}
+
+export const CONTRACT_RUBRICS: Record<ContractType, ContractRubric> = {
+  [ContractType.LEASE]: {
+    guidance: [
+      "Notice periods of up to 90 days to end a lease are normal (LOW); longer is MEDIUM.",
+      "Landlord entry without notice, non-refundable deposits or the tenant paying for structural repairs are HIGH.",
+      "Rent increases without a cap or a notice period are MEDIUM.",
+    ],
+    longNoticeDays: 90,
+  },
+  [ContractType.NDA]: {
+    guidance: [
+      "Confidentiality that never ends, or covers publicly available information, is HIGH.",
+      "Obligations that bind only one side are MEDIUM when the user is that side.",
+      "Non-compete or non-solicitation terms hidden in an NDA are HIGH.",
+    ],
+    longNoticeDays: 60,
+  },
+  [ContractType.EMPLOYMENT]: {
+    guidance: [
+      "Non-compete restrictions longer than 12 months or without a geographic limit are HIGH.",
+      "Assignment of inventions made outside work time or with the employee's own resources is HIGH.",
+      "Resignation notice up to 3 months is normal (LOW); unpaid overtime or clawbacks of pay are MEDIUM.",
+    ],
+    longNoticeDays: 90,
+  },
+  [ContractType.SAAS]: {
+    guidance: [
+      "Cancellation notice longer than 30 days before renewal is MEDIUM; longer than 60 days is HIGH.",
+      "The provider changing terms or prices without notice, or deleting data on termination without an export window, is HIGH.",
+      "Liability capped at fees paid in the last 12 months is normal (LOW).",
+    ],
+    longNoticeDays: 30,
+  },
+  [ContractType.LOAN]: {
+    guidance: [
+      "Variable rates without a cap, compounding penalty interest or acceleration on any minor breach are HIGH.",
+      "Early repayment penalties above 2% of the outstanding amount are MEDIUM.",
+      "Personal guarantees or security over the user's home are HIGH.",
+    ],
+    longNoticeDays: 60,
+  },
+  [ContractType.SERVICES]: {
+    guidance: [
+      "Payment terms longer than 60 days, or payment only on the client's acceptance at its discretion, are MEDIUM.",
+      "Uncapped liability or indemnities covering the client's own negligence are HIGH.",
+      "Transfer of all intellectual property, including pre-existing tools, is MEDIUM.",
+    ],
+    longNoticeDays: 60,
+  },
+  [ContractType.OTHER]: {
+    guidance: [],
+    longNoticeDays: 60,
+  },
+};
+
+// Other names models use for the types
+const TYPE_ALIASES: [ContractType, RegExp][] = [
+  [ContractType.LEASE, /lease|rental|tenancy/],
+  [ContractType.NDA, /nda|non ?disclosure|confidentiality/],
+  [ContractType.EMPLOYMENT, /employment|job|offer letter/],
+  [ContractType.SAAS, /saas|software|subscription|terms of (service|use)|tos|eula/],
+  [ContractType.LOAN, /loan|credit|promissory|mortgage/],
+  [ContractType.SERVICES, /services?|consult|freelanc|contractor/],
+];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+
+// Accepts the exact enum values plus names like "Non-Disclosure Agreement" or "terms of service"
+export const normalizeContractType = (value: unknown): ContractType | null => {
+  if (typeof value !== 'string') return null;
+  const wanted = normalize(value);
+  return CONTRACT_TYPES.find(type => normalize(type) === wanted)
+    || TYPE_ALIASES.find(([, pattern]) => pattern.test(wanted))?.[0]
+    || null;
+};
+
+// Words that point to each contract type, counted across the document
+const TYPE_MARKERS: [ContractType, RegExp][] = [
+  [ContractType.LEASE, /\b(lease|landlord|tenant|lessee|lessor|rent|premises|tenancy)\b/gi],
+  [ContractType.NDA, /\b(non-?disclosure|confidential information|disclosing party|receiving party)\b/gi],
+  [ContractType.EMPLOYMENT, /\b(employee|employer|employment|salary|probation(ary)?)\b/gi],
+  [ContractType.SAAS, /\b(subscription|software|terms of (service|use)|platform|saas|user account|end users?)\b/gi],
+  [ContractType.LOAN, /\b(loan|borrower|lender|principal amount|promissory|interest rate)\b/gi],
+  [ContractType.SERVICES, /\b(service provider|contractor|consultant|statement of work|scope of (work|services)|deliverables)\b/gi],
+];
+
+const MIN_TYPE_MARKERS = 3;
+
+// Keyword guess for offline analyses and when the model leaves the type out; the first type listed wins a tie
+export const detectContractType = (text: string): ContractType => {
+  let best: { type: ContractType; hits: number } = { type: ContractType.OTHER, hits: MIN_TYPE_MARKERS - 1 };
+  TYPE_MARKERS.forEach(([type, pattern]) => {
+    const hits = (text.match(pattern) || []).length;
+    if (hits > best.hits) best = { type, hits };
+  });
+  return best.type;
+};
+
+// The distinct types among analyzed contracts; comparing more than one type is apples to oranges
+export const contractTypesOf = (contracts: Contract[]): ContractType[] =>
+  Array.from(new Set(contracts.map(contract => contract.analysis?.contractType).filter((type): type is ContractType => !!type)));
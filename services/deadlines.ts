@@ -0,0 +1,307 @@
+import { Contract, KeyFact } from "../types";
+
+// Deadlines worked out from a contract's key facts: when it ends, the last day to cancel
+// before it ends or renews, and recurring payment dates. Dates are calendar days
+// (YYYY-MM-DD) with no time zone, and are exported as all-day calendar events.
+
+export type DeadlineKind = 'expiry' | 'renewal' | 'cancellation' | 'payment';
+
+type DurationUnit = 'day' | 'week' | 'month' | 'year';
+
+interface Duration {
+  amount: number;
+  unit: DurationUnit;
+}
+
+export interface ContractDeadline {
+  id: string;
+  contractId: string;
+  contractName: string;
+  kind: DeadlineKind;
+  date: string; // First occurrence
+  title: string;
+  description: string;
+  repeat?: Duration & { until?: string }; // Payment schedules, and the terms of auto-renewing contracts
+}
+
+// One dated occurrence of a deadline, for lists
+export interface UpcomingDeadline {
+  deadline: ContractDeadline;
+  date: string;
+  daysLeft: number;
+}
+
+export const DEADLINE_LABELS: Record<DeadlineKind, string> = {
+  expiry: 'Expires',
+  renewal: 'Renews',
+  cancellation: 'Last day to cancel',
+  payment: 'Payment due',
+};
+
+// --- Calendar-day arithmetic, done in UTC so local time zones cannot shift a day ---
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const fromDay = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+export const today = (): string => {
+  const now = new Date();
+  return toDay(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((fromDay(to).getTime() - fromDay(from).getTime()) / 86_400_000);
+
+// Month and year steps keep the day of the month where possible, e.g. Jan 31 + 1 month = Feb 28
+const addDuration = (day: string, { amount, unit }: Duration, sign: 1 | -1 = 1): string => {
+  const date = fromDay(day);
+  if (unit === 'day' || unit === 'week') {
+    date.setUTCDate(date.getUTCDate() + sign * amount * (unit === 'week' ? 7 : 1));
+    return toDay(date);
+  }
+  const months = sign * amount * (unit === 'year' ? 12 : 1);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return toDay(target);
+};
+
+// --- Reading dates and durations out of fact values ---
+
+// Accepts the YYYY-MM-DD form the prompt asks for, and written dates like "1 March 2026"
+export const parseFactDate = (fact: KeyFact | undefined): string | null => {
+  if (!fact) return null;
+  const iso = fact.value.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const parsed = new Date(fact.value.replace(/(\d+)(st|nd|rd|th)\b/gi, '$1'));
+  if (isNaN(parsed.getTime()) || !/\d{4}/.test(fact.value)) return null;
+  return toDay(new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate())));
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fourteen: 14, fifteen: 15, twenty: 20, thirty: 30, 'forty-five': 45,
+  sixty: 60, ninety: 90, a: 1, an: 1,
+};
+
+const DURATION = /\b(\d+|[a-z]+(?:-five)?)(?:\s*\(\d+\))?[\s-]*(?:business\s+|calendar\s+)?(day|week|month|year)s?\b/gi;
+
+// "30 days", "thirty (30) days", "one-year", "a month"
+export const parseDuration = (text: string): Duration | null => {
+  for (const match of text.matchAll(DURATION)) {
+    const amount = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : NUMBER_WORDS[match[1].toLowerCase()];
+    if (amount) return { amount, unit: match[2].toLowerCase() as DurationUnit };
+  }
+  return null;
+};
+
+// The notice period inside renewal wording, e.g. "...unless either party gives 60 days' written notice"
+const noticeInText = (text: string): Duration | null => {
+  const before = text.match(/(\S+(?:\s*\(\d+\))?[\s-]*(?:business\s+|calendar\s+)?(?:day|week|month|year)s?)['’]?\s+(?:prior\s+)?(?:written\s+)?notice/i);
+  if (before) return parseDuration(before[1]);
+  const after = text.match(/notice[^.]{0,60}/i);
+  return after ? parseDuration(after[0]) : null;
+};
+
+// The length of each renewal term, e.g. "...for successive one-year terms"
+const renewalPeriodInText = (text: string): Duration | null => {
+  const match = text.match(/\b(?:for|successive|additional|further)\s+((?:an?\s+)?(?:additional\s+|further\s+|successive\s+)?\S+(?:\s*\(\d+\))?[\s-]*(?:day|week|month|year)s?)/i);
+  return match ? parseDuration(match[1]) : null;
+};
+
+const AUTO_RENEWAL = /automatic(ally)?|auto-?renew|renews? (itself|unless)|successive/i;
+
+const PAYMENT_FREQUENCIES: [RegExp, Duration][] = [
+  [/\b(per|a|each|every) week\b|weekly/i, { amount: 1, unit: 'week' }],
+  [/\b(per|a|each|every) month\b|monthly|\/\s*mo(nth)?\b/i, { amount: 1, unit: 'month' }],
+  [/\b(per|a|each|every) quarter\b|quarterly/i, { amount: 3, unit: 'month' }],
+  [/\b(per|a|each|every) (year|annum)\b|annual(ly)?|yearly|\/\s*y(ea)?r\b/i, { amount: 1, unit: 'year' }],
+];
+
+const DUE_DAY = /\b(?:on|by) the (\d{1,2})(?:st|nd|rd|th)\b/i;
+
+const paymentSchedule = (fee: KeyFact): { every: Duration; dueDay?: number } | null => {
+  const text = `${fee.value} ${fee.sourceQuote || ''}`;
+  const frequency = PAYMENT_FREQUENCIES.find(([pattern]) => pattern.test(text));
+  if (!frequency) return null;
+  const dueDay = text.match(DUE_DAY);
+  return { every: frequency[1], dueDay: dueDay ? Math.min(28, parseInt(dueDay[1], 10)) : undefined };
+};
+
+// Moves a monthly/yearly start date onto the stated due day, on or after the start
+const alignToDueDay = (start: string, dueDay: number): string => {
+  const date = fromDay(start);
+  const monthsAhead = date.getUTCDate() > dueDay ? 1 : 0;
+  return toDay(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + monthsAhead, dueDay)));
+};
+
+const formatDuration = ({ amount, unit }: Duration) => `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+
+export const computeDeadlines = (contract: Contract, from: string = today()): ContractDeadline[] => {
+  const facts = contract.analysis?.keyFacts;
+  if (!facts) return [];
+
+  const deadlines: ContractDeadline[] = [];
+  const add = (kind: DeadlineKind, date: string, description: string, repeat?: ContractDeadline['repeat'], suffix = '') => {
+    deadlines.push({
+      id: `${contract.id}-${kind}${suffix}`,
+      contractId: contract.id,
+      contractName: contract.fileName,
+      kind,
+      date,
+      title: `${DEADLINE_LABELS[kind]}: ${contract.fileName}`,
+      description,
+      repeat,
+    });
+  };
+
+  const renewalText = facts.renewalTerms?.value || '';
+  const autoRenews = AUTO_RENEWAL.test(renewalText);
+  const renewalPeriod = autoRenews ? renewalPeriodInText(renewalText) : null;
+  const notice = parseDuration(facts.noticePeriod?.value || '') || noticeInText(renewalText);
+
+  let end = parseFactDate(facts.expiryDate);
+  // An auto-renewing contract whose first term is over has rolled into a later term
+  if (end && renewalPeriod) {
+    for (let i = 0; i < 100 && end < from; i++) end = addDuration(end, renewalPeriod);
+  }
+
+  if (end) {
+    // Renewal and notice dates come back every term, so calendars keep reminding after this one
+    const termRepeat = renewalPeriod || undefined;
+    if (autoRenews) {
+      add('renewal', end, `Renews automatically${renewalPeriod ? ` for ${formatDuration(renewalPeriod)}` : ''} unless cancelled in time. ${renewalText}`, termRepeat);
+    } else {
+      add('expiry', end, `The contract ends. ${renewalText}`.trim());
+    }
+    if (notice) {
+      // Too late to cancel this term: the next chance is before the end of the following one
+      let termEnd = end;
+      if (renewalPeriod) {
+        for (let i = 0; i < 100 && addDuration(termEnd, notice, -1) < from; i++) termEnd = addDuration(termEnd, renewalPeriod);
+      }
+      add('cancellation', addDuration(termEnd, notice, -1), `${formatDuration(notice)} notice is needed before ${termEnd}${autoRenews ? ' to stop the automatic renewal' : ''}. ${facts.noticePeriod?.value || ''}`.trim(), termRepeat);
+    }
+  }
+
+  const start = parseFactDate(facts.effectiveDate);
+  facts.fees.forEach((fee, index) => {
+    const schedule = paymentSchedule(fee);
+    if (!schedule || !start) return;
+    const first = schedule.dueDay && schedule.every.unit !== 'week' ? alignToDueDay(start, schedule.dueDay) : start;
+    add('payment', first, fee.value, { ...schedule.every, until: autoRenews ? undefined : end || undefined }, `-${index + 1}`);
+  });
+
+  return deadlines;
+};
+
+// First occurrence on or after `from`, or null when a deadline has passed for good
+export const nextOccurrence = (deadline: ContractDeadline, from: string = today()): string | null => {
+  if (!deadline.repeat) return deadline.date >= from ? deadline.date : null;
+  let date = deadline.date;
+  for (let i = 0; i < 1000 && date < from; i++) date = addDuration(date, deadline.repeat);
+  if (date < from) return null;
+  return deadline.repeat.until && date > deadline.repeat.until ? null : date;
+};
+
+export const upcomingDeadlines = (contracts: Contract[], withinDays: number, from: string = today()): UpcomingDeadline[] =>
+  contracts
+    .flatMap(contract => computeDeadlines(contract, from))
+    .map(deadline => {
+      const date = nextOccurrence(deadline, from);
+      return date ? { deadline, date, daysLeft: daysBetween(from, date) } : null;
+    })
+    .filter((item): item is UpcomingDeadline => !!item && item.daysLeft <= withinDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+// --- iCalendar (RFC 5545) export ---
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space. Lengths are counted
+// in UTF-8 bytes and lines only break between characters, so non-Latin text stays valid.
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > 74) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (day: string) => day.replace(/-/g, '');
+
+const FREQUENCIES: Record<DurationUnit, string> = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' };
+
+// Reminders ahead of each kind of deadline
+const REMINDERS: Record<DeadlineKind, string> = {
+  expiry: '-P14D',
+  renewal: '-P14D',
+  cancellation: '-P7D',
+  payment: '-P1D',
+};
+
+export const buildCalendar = (deadlines: ContractDeadline[], calendarName: string): string => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//LegalLens//Contract Deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  deadlines.forEach(deadline => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${deadline.id}@legallens`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(deadline.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDuration(deadline.date, { amount: 1, unit: 'day' }))}`,
+      `SUMMARY:${escapeText(deadline.title)}`,
+      `DESCRIPTION:${escapeText(deadline.description)}`,
+    );
+    if (deadline.repeat) {
+      const until = deadline.repeat.until ? `;UNTIL=${icsDate(deadline.repeat.until)}` : '';
+      lines.push(`RRULE:FREQ=${FREQUENCIES[deadline.repeat.unit]};INTERVAL=${deadline.repeat.amount}${until}`);
+    }
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(deadline.title)}`,
+      `TRIGGER:${REMINDERS[deadline.kind]}`,
+      'END:VALARM',
+      'END:VEVENT',
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const downloadCalendar = (deadlines: ContractDeadline[], calendarName: string, fileName: string) => {
+  const blob = new Blob([buildCalendar(deadlines, calendarName)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,231 @@
+import { PDFDocument } from 'pdf-lib';
+import { bytesToBase64, base64ToBytes, decodeBase64Text, encodeBase64Text } from './base64';
+import { hasTextLayer } from './documentText';
+import { PAGE_BREAK } from './clauseAnchors';
+
+// Long contracts are split into sections that each fit comfortably in one
+// model request. Sections are analyzed one by one and merged afterwards.
+
+export const PAGES_PER_SECTION = 12;
+export const MAX_SECTION_CHARS = 24000;
+
+export interface DocumentSection {
+  index: number;
+  base64Data: string;
+  mimeType: string;
+  label: string; // Human-readable position, e.g. "Pages 13-24"
+  text?: string; // Set for text documents, which are sent to the model as plain text
+  // 1-based page range, set for sections of PDFs with a text layer
+  firstPage?: number;
+  lastPage?: number;
+}
+
+// Packs paragraphs into sections of at most maxChars, hard-splitting any paragraph that is longer on its own.
+export const splitTextIntoSections = (text: string, maxChars: number = MAX_SECTION_CHARS): string[] => {
+  const paragraphs = text.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  const sections: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) sections.push(current.trim());
+    current = '';
+  };
+
+  paragraphs.forEach(paragraph => {
+    let remaining = paragraph;
+
+    while (remaining.length > maxChars) {
+      flush();
+      // Prefer to cut at the last sentence end inside the limit
+      const window = remaining.slice(0, maxChars);
+      const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'));
+      const cut = sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : maxChars;
+      sections.push(remaining.slice(0, cut).trim());
+      remaining = remaining.slice(cut);
+    }
+
+    if (current.length + remaining.length + 2 > maxChars) {
+      flush();
+    }
+    current = current ? `${current}\n\n${remaining}` : remaining;
+  });
+  flush();
+
+  return sections.length > 0 ? sections : [text];
+};
+
+// A new PDF holding pages [start, end) of the source, as Base64
+export const copyPdfPages = async (source: PDFDocument, start: number, end: number): Promise<string> => {
+  const part = await PDFDocument.create();
+  const pageIndices = Array.from({ length: end - start }, (_, i) => start + i);
+  const pages = await part.copyPages(source, pageIndices);
+  pages.forEach(page => part.addPage(page));
+  return bytesToBase64(await part.save());
+};
+
+const pageLabel = (first: number, last: number) => (first === last ? `Page ${first}` : `Pages ${first}-${last}`);
+
+const splitPdfIntoSections = async (base64Data: string, pagesPerSection: number): Promise<DocumentSection[]> => {
+  const source = await PDFDocument.load(base64ToBytes(base64Data), { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+
+  if (pageCount <= pagesPerSection) {
+    return [{ index: 0, base64Data, mimeType: 'application/pdf', label: `Pages 1-${pageCount}` }];
+  }
+
+  const sections: DocumentSection[] = [];
+  for (let start = 0; start < pageCount; start += pagesPerSection) {
+    const end = Math.min(start + pagesPerSection, pageCount);
+    sections.push({
+      index: sections.length,
+      base64Data: await copyPdfPages(source, start, end),
+      mimeType: 'application/pdf',
+      label: `Pages ${start + 1}-${end}`,
+    });
+  }
+  return sections;
+};
+
+// PDFs with a text layer: runs of pages with text become text sections, runs of scanned pages
+// are cut out of the PDF for OCR. pageTexts holds the extracted text of every page.
+export const splitPdfByTextLayer = async (
+  base64Data: string,
+  pageTexts: string[],
+  pagesPerSection: number = PAGES_PER_SECTION
+): Promise<DocumentSection[]> => {
+  const sections: Omit<DocumentSection, 'index'>[] = [];
+  let source: PDFDocument | null = null;
+
+  for (let start = 0; start < pageTexts.length;) {
+    const scanned = !hasTextLayer(pageTexts[start]);
+    let end = start + 1;
+    while (end < pageTexts.length && !hasTextLayer(pageTexts[end]) === scanned) end++;
+
+    if (scanned) {
+      source = source || await PDFDocument.load(base64ToBytes(base64Data), { ignoreEncryption: true });
+      for (let from = start; from < end; from += pagesPerSection) {
+        const to = Math.min(from + pagesPerSection, end);
+        sections.push({
+          base64Data: await copyPdfPages(source, from, to),
+          mimeType: 'application/pdf',
+          label: pageLabel(from + 1, to),
+          firstPage: from + 1,
+          lastPage: to,
+        });
+      }
+    } else {
+      // Whole pages are packed up to the section size; a page too long on its own is split further
+      let first = start;
+      let chunk: string[] = [];
+      let chunkLength = 0;
+      const flush = (last: number) => {
+        if (chunk.length === 0) return;
+        const text = chunk.join(PAGE_BREAK);
+        const parts = text.length > MAX_SECTION_CHARS ? splitTextIntoSections(text) : [text];
+        parts.forEach(part => sections.push({
+          base64Data: encodeBase64Text(part),
+          mimeType: 'text/plain',
+          label: pageLabel(first + 1, last),
+          text: part,
+          firstPage: first + 1,
+          lastPage: last,
+        }));
+        chunk = [];
+        chunkLength = 0;
+      };
+      for (let page = start; page < end; page++) {
+        if (chunk.length > 0 && chunkLength + pageTexts[page].length + 1 > MAX_SECTION_CHARS) {
+          flush(page);
+          first = page;
+        }
+        chunk.push(pageTexts[page]);
+        chunkLength += pageTexts[page].length + 1;
+      }
+      flush(end);
+    }
+    start = end;
+  }
+
+  return sections.map((section, index) => ({ ...section, index }));
+};
+
+// The document text put back together from its sections: the extracted text of text sections and
+// the model's transcription (transcripts[i]) of scanned ones. Page breaks are kept between pages;
+// a scanned section is padded with breaks so the pages after it keep their numbers.
+export const joinSectionTexts = (sections: DocumentSection[], transcripts: string[]): string =>
+  sections.reduce((text, section, i) => {
+    const own = section.text ?? `${transcripts[i] || ''}${PAGE_BREAK.repeat((section.lastPage ?? 1) - (section.firstPage ?? 1))}`;
+    if (i === 0) return own;
+    const previous = sections[i - 1];
+    const newPage = section.firstPage !== undefined && previous.lastPage !== undefined && section.firstPage > previous.lastPage;
+    return `${text}${newPage ? PAGE_BREAK : '\n\n'}${own}`;
+  }, '');
+
+export const splitDocument = async (
+  base64Data: string,
+  mimeType: string,
+  pagesPerSection: number = PAGES_PER_SECTION
+): Promise<DocumentSection[]> => {
+  const whole: DocumentSection[] = [{ index: 0, base64Data, mimeType, label: 'Full document' }];
+
+  if (mimeType === 'application/pdf') {
+    try {
+      return await splitPdfIntoSections(base64Data, pagesPerSection);
+    } catch (e) {
+      // Damaged or unusual PDFs still go to the model in one piece
+      console.warn("Could not split PDF into sections, analyzing as a whole", e);
+      return whole;
+    }
+  }
+
+  if (mimeType.startsWith('text/')) {
+    return splitTextDocument(decodeBase64Text(base64Data));
+  }
+
+  return whole;
+};
+
+// Text extracted from a file (or pasted) is split the same way, whatever the original format was
+export const splitTextDocument = (text: string): DocumentSection[] => {
+  const parts = splitTextIntoSections(text);
+  return parts.map((part, index) => ({
+    index,
+    base64Data: encodeBase64Text(part),
+    mimeType: 'text/plain',
+    label: parts.length > 1 ? `Part ${index + 1} of ${parts.length}` : 'Full document',
+    text: part,
+  }));
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[a-z0-9]{3,}/g) || [];
+
+// Picks the sections of a long text that best match the query, in document order, within a character budget.
+// Used to give the chat assistant the relevant parts of contracts that are too long to send whole.
+export const selectRelevantText = (text: string, query: string, budget: number): string => {
+  if (text.length <= budget) return text;
+
+  const sections = splitTextIntoSections(text, Math.max(1000, Math.floor(budget / 6)));
+  const queryTerms = new Set(tokenize(query));
+
+  const ranked = sections
+    .map((section, index) => {
+      const words = tokenize(section);
+      const hits = words.filter(word => queryTerms.has(word)).length;
+      return { index, section, score: words.length > 0 ? hits / Math.sqrt(words.length) : 0 };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const chosen: typeof ranked = [];
+  let used = 0;
+  for (const item of ranked) {
+    if (used + item.section.length > budget) continue;
+    chosen.push(item);
+    used += item.section.length;
+  }
+
+  return chosen
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.section)
+    .join('\n\n[...]\n\n');
+};
@@ -0,0 +1,173 @@
+import type { TextItem, TextMarkedContent } from "pdfjs-dist/types/src/display/api";
+import { TextExtraction } from "../types";
+import { base64ToBytes, decodeBase64Text } from "./base64";
+
+// Documents whose text can be read in the browser. They are analyzed as plain text, so the
+// model has nothing to transcribe, and the offline rules can read them too. Digital PDFs
+// are read page by page; only pages without a text layer still need the model's OCR.
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Browsers leave File.type empty for some extensions (notably .md), so fall back to the name
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  docx: DOCX_MIME_TYPE,
+};
+
+export const documentMimeType = (file: File): string => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_MIME_TYPES[extension] || file.type;
+};
+
+export const isTextDocument = (mimeType: string): boolean =>
+  mimeType.startsWith('text/') || mimeType === DOCX_MIME_TYPE;
+
+const readUint16 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+const readUint32 = (bytes: Uint8Array, offset: number) => (readUint16(bytes, offset) | (readUint16(bytes, offset + 2) << 16)) >>> 0;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads one file out of a ZIP archive (a .docx is one), or null when it is not there.
+// Sizes come from the central directory because local headers may leave them blank.
+const readZipEntry = async (zip: Uint8Array, entryName: string): Promise<Uint8Array | null> => {
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (readUint32(zip, i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("not a ZIP archive");
+
+  const entryCount = readUint16(zip, end + 10);
+  let offset = readUint32(zip, end + 16);
+  for (let i = 0; i < entryCount && readUint32(zip, offset) === 0x02014b50; i++) {
+    const method = readUint16(zip, offset + 10);
+    const compressedSize = readUint32(zip, offset + 20);
+    const nameLength = readUint16(zip, offset + 28);
+    const headerLength = 46 + nameLength + readUint16(zip, offset + 30) + readUint16(zip, offset + 32);
+    const name = new TextDecoder().decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (name === entryName) {
+      const local = readUint32(zip, offset + 42);
+      const start = local + 30 + readUint16(zip, local + 26) + readUint16(zip, local + 28);
+      const data = zip.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new Error(`unsupported compression method ${method}`);
+    }
+    offset += headerLength;
+  }
+  return null;
+};
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity.toLowerCase()]!;
+  });
+
+// Body text of word/document.xml: one paragraph per block, tabs and line breaks kept.
+// Headers, footers and comments live in other parts and are left out.
+export const wordXmlToText = (xml: string): string =>
+  (xml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) || [])
+    .map(paragraph => decodeXmlEntities(
+      (paragraph.match(/<w:t(?: [^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br(?: [^>]*)?\/>/g) || [])
+        .map(token => (token.startsWith('<w:tab') ? '\t' : token.startsWith('<w:br') ? '\n' : token.replace(/<[^>]+>/g, '')))
+        .join('')
+    ).trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+const extractDocxText = async (base64Data: string): Promise<string> => {
+  let xml: Uint8Array | null;
+  try {
+    xml = await readZipEntry(base64ToBytes(base64Data), 'word/document.xml');
+  } catch (error) {
+    console.error("Failed to read Word document", error);
+    throw new Error("This Word document could not be read. Save it again as .docx, or paste its text instead.");
+  }
+  if (!xml) throw new Error("This file is not a Word document. Only .docx files are supported, not older .doc files.");
+  return wordXmlToText(new TextDecoder().decode(xml));
+};
+
+// Pages with fewer visible characters than this are treated as scanned images and sent for OCR
+export const MIN_PAGE_CHARS = 20;
+
+export const hasTextLayer = (pageText: string): boolean => pageText.replace(/\s+/g, '').length >= MIN_PAGE_CHARS;
+
+// 1-based numbers of the pages that need OCR
+export const scannedPages = (pageTexts: string[]): number[] =>
+  pageTexts.flatMap((text, index) => (hasTextLayer(text) ? [] : [index + 1]));
+
+// pdf.js is large and only needed for PDFs, so it is loaded on first use
+export const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+// Lines come from the end-of-line flags; a vertical gap taller than a line starts a new paragraph
+const pageItemsToText = (items: Array<TextItem | TextMarkedContent>): string => {
+  let text = '';
+  let lastY: number | undefined;
+  items.forEach(item => {
+    if (!('str' in item)) return;
+    const y = item.transform[5];
+    if (lastY !== undefined && text.endsWith('\n') && item.height > 0 && lastY - y > item.height * 2) text += '\n';
+    text += item.str + (item.hasEOL ? '\n' : '');
+    if (item.str) lastY = y;
+  });
+  return text.replace(/[ \t]+\n/g, '\n').trim();
+};
+
+// The text layer of each page of a PDF, or null when the file cannot be parsed (the model then reads it as before)
+export const extractPdfPageTexts = async (base64Data: string): Promise<string[] | null> => {
+  try {
+    const pdfjs = await loadPdfJs();
+    const pdf = await pdfjs.getDocument({ data: base64ToBytes(base64Data), isEvalSupported: false }).promise;
+    try {
+      const pages: string[] = [];
+      for (let number = 1; number <= pdf.numPages; number++) {
+        const page = await pdf.getPage(number);
+        pages.push(pageItemsToText((await page.getTextContent()).items));
+        page.cleanup();
+      }
+      return pages;
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    console.warn("Could not read the PDF text layer, using OCR", error);
+    return null;
+  }
+};
+
+const TEXT_EXTRACTION_LABELS: Record<TextExtraction, string> = {
+  text: 'read from the file',
+  'pdf-text': 'read from the PDF text layer',
+  'pdf-mixed': 'read from the PDF text layer',
+  ocr: 'transcribed by the AI (OCR)',
+};
+
+// e.g. "read from the PDF text layer, OCR for pages 3, 7"
+export const describeTextExtraction = (extraction: TextExtraction, ocrPages: number[] = []): string =>
+  extraction === 'pdf-mixed' && ocrPages.length > 0
+    ? `${TEXT_EXTRACTION_LABELS[extraction]}, OCR for page${ocrPages.length === 1 ? '' : 's'} ${ocrPages.join(', ')}`
+    : TEXT_EXTRACTION_LABELS[extraction];
+
+// The document's text, or null for formats that need OCR (PDFs and images)
+export const extractDocumentText = async (base64Data: string, mimeType: string): Promise<string | null> => {
+  if (!isTextDocument(mimeType)) return null;
+  const text = mimeType === DOCX_MIME_TYPE ? await extractDocxText(base64Data) : decodeBase64Text(base64Data);
+  if (!text.trim()) throw new Error("The document does not contain any text to analyze.");
+  return text.replace(/\r\n?/g, '\n');
+};
@@ -0,0 +1,76 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import type { TokenUsage } from "../types";
+import type { AIConfig } from "./aiConfig";
+import type { AIProvider, GenerateRequest } from "./aiProvider";
+
+const toGenerateConfig = (request: GenerateRequest) => ({
+  systemInstruction: request.systemInstruction,
+  temperature: request.temperature,
+  abortSignal: request.abortSignal,
+  ...(request.responseSchema && {
+    responseMimeType: "application/json",
+    responseSchema: request.responseSchema,
+  }),
+});
+
+// Thinking tokens are billed as output
+const toTokenUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined =>
+  metadata && {
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+  };
+
+// Runs inside the proxy server (server/), so the API key never reaches the browser.
+export const createGeminiProvider = (config: AIConfig): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    if (!client) {
+      client = new GoogleGenAI({
+        apiKey: config.apiKey,
+        httpOptions: config.baseUrl ? { baseUrl: config.baseUrl } : undefined,
+      });
+    }
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+
+    isConfigured: () => Boolean(config.apiKey),
+
+    modelFor: (role) => config.models[role],
+
+    resolveModel: async (role) => config.models[role],
+
+    generate: async (request: GenerateRequest) => {
+      const model = config.models[request.modelRole];
+
+      const pending = getClient().models.generateContent({
+        model,
+        contents: request.contents,
+        config: toGenerateConfig(request),
+      });
+      request.onSent?.();
+      const response = await pending;
+
+      return { text: response.text, model, usage: toTokenUsage(response.usageMetadata) };
+    },
+
+    generateStream: async function* (request: GenerateRequest) {
+      const stream = await getClient().models.generateContentStream({
+        model: config.models[request.modelRole],
+        contents: request.contents,
+        config: toGenerateConfig(request),
+      });
+
+      // Every chunk carries the running totals, so the last one wins
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+        usage = toTokenUsage(chunk.usageMetadata) || usage;
+      }
+      return usage;
+    },
+  };
+};
@@ -1,106 +1,45 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ContractAnalysis, RiskLevel, ChatMessage, Contract, ComparisonResult } from "../types";
-
-// Note: In a real production app, this key should be proxied through a backend.
-// For this demo, we assume process.env.API_KEY is available or injected.
-const API_KEY = process.env.API_KEY || '';
-
-// Schema definition for the expected output
-const analysisSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    summary: {
-      type: Type.STRING,
-      description: "A plain-English summary of the legal contract, suitable for a non-expert.",
-    },
-    overallRisk: {
-      type: Type.STRING,
-      enum: ["Low", "Medium", "High"],
-      description: "The overall risk level of the contract based on the severity of clauses.",
-    },
-    riskScore: {
-      type: Type.INTEGER,
-      description: "A numerical risk score from 0 (completely safe) to 100 (extremely risky). High risk contracts should be >70, Medium 40-70, Low <40. If not a legal document, set to 0.",
-    },
-    clauses: {
-      type: Type.ARRAY,
-      description: "A list of significant clauses found in the contract, especially those with potential risks.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING, description: "A unique identifier for the clause (e.g., 'clause-1')." },
-          text: { type: Type.STRING, description: "The original text of the clause." },
-          explanation: { type: Type.STRING, description: "A simple English explanation of what this clause means." },
-          riskLevel: {
-            type: Type.STRING,
-            enum: ["Low", "Medium", "High"],
-            description: "The risk level of this specific clause.",
-          },
-          riskyKeywords: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: "Specific words or phrases in the text that trigger the risk.",
-          },
-          reason: { type: Type.STRING, description: "The type of risk (e.g., 'Payment Risk') and why it is risky." },
-        },
-        required: ["id", "text", "explanation", "riskLevel", "riskyKeywords", "reason"],
-      },
-    },
-    fullText: {
-      type: Type.STRING,
-      description: "The full raw text transcribed from the document (OCR).",
-    },
-  },
-  required: ["summary", "overallRisk", "riskScore", "clauses", "fullText"],
-};
-
-const comparisonSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    recommendedId: {
-      type: Type.STRING,
-      description: "The ID of the contract that is safer or more favorable to the user.",
-    },
-    reasoning: {
-      type: Type.STRING,
-      description: "A concise explanation of why the recommended contract is better.",
-    },
-    keyDifferences: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: "A list of bullet points highlighting the main differences (e.g., 'Contract A has a non-compete, Contract B does not').",
-    },
-  },
-  required: ["recommendedId", "reasoning", "keyDifferences"],
-};
-
-// Helper to handle API errors consistently
+import { ContractAnalysis, RiskLevel, ChatMessage, Clause, ClauseRewrite, Contract, ComparisonResult, ResponseStatus, Provenance, TextExtraction, TokenUsage } from "../types";
+import { AIContent, AIProvider, GenerateRequest, getAIProvider } from "./aiProvider";
+import { analyzeTextWithRules, buildRuleBaseline } from "./ruleBasedAnalyzer";
+import { DocumentSection, joinSectionTexts, splitDocument, splitPdfByTextLayer, splitTextDocument } from "./documentSections";
+import { extractDocumentText, extractPdfPageTexts, scannedPages } from "./documentText";
+import { PAGE_BREAK, anchorClauses } from "./clauseAnchors";
+import { mergeAnalyses } from "./analysisMerge";
+import { cacheAnalysis, getCachedAnalysis, hashContent } from "./analysisCache";
+import { recordUsage } from "./usageService";
+import { PROMPTS, PromptDefinition, promptVersion } from "./prompts";
+import { applyChecklist } from "./checklists";
+import { currentOutputLanguage, detectLanguage, languageName } from "./languages";
+import { AIServiceError, AuthError, classifyAIError, withRetry } from "./aiErrors";
+import { AIValidationError, ValidationResult, validateClauseRewrite, validateComparisonResult, validateContractAnalysis } from "./responseValidation";
+
+
+
+// Helper to handle API errors consistently: log, then rethrow as a typed AIServiceError
 const handleGenAIError = (error: any): never => {
   console.error("GenAI Error:", error);
-  let errorMessage = "An unexpected error occurred during processing.";
-
-  if (error.message) {
-    const msg = error.message.toLowerCase();
-    if (msg.includes('429') || msg.includes('quota') || msg.includes('resource exhausted')) {
-      errorMessage = "AI usage limit exceeded. Please try again in a few moments.";
-    } else if (msg.includes('403') || msg.includes('key') || msg.includes('permission')) {
-      errorMessage = "Authentication failed. Please check the system configuration.";
-    } else if (msg.includes('413') || msg.includes('too large')) {
-      errorMessage = "The document is too large for the AI to process.";
-    } else if (msg.includes('503') || msg.includes('overloaded') || msg.includes('unavailable')) {
-      errorMessage = "AI service is temporarily unavailable. Please retry.";
-    } else if (msg.includes('safety') || msg.includes('blocked')) {
-      errorMessage = "The document was flagged by safety settings and could not be analyzed.";
-    } else if (msg.includes('json') || msg.includes('parse')) {
-      errorMessage = "Received an invalid response format from AI. Please retry.";
-    } else {
-      errorMessage = `Processing failed: ${error.message}`;
-    }
-  }
-  
-  throw new Error(errorMessage);
+  throw classifyAIError(error);
 };
 
+const missingKeyError = () =>
+  new AuthError("API Key is missing. Please set GEMINI_API_KEY in .env.local and restart the proxy server.");
+
+// Every non-streaming model call goes through here so quota and transient failures are retried
+// and each successful call is metered under the service function (fn) that made it
+const generateWithRetry = (
+  provider: AIProvider,
+  request: GenerateRequest,
+  fn: string,
+  onStage?: (stage: AnalysisStage) => void
+) =>
+  withRetry(async () => {
+    onStage?.('sending');
+    const startedAt = Date.now();
+    const response = await provider.generate(onStage ? { ...request, onSent: () => onStage('waiting') } : request);
+    recordUsage(fn, response.model, response.usage, Date.now() - startedAt);
+    return response;
+  }, { signal: request.abortSignal });
+
 // Helper to clean and parse JSON that might be wrapped in markdown
 const parseJSONResponse = <T>(text: string | undefined): T => {
   if (!text) {
@@ -121,127 +60,397 @@ const parseJSONResponse = <T>(text: string | undefined): T => {
   }
 };
 
+const parseAndValidate = <T>(
+  text: string | undefined,
+  validate: (raw: unknown) => ValidationResult<T>
+): ValidationResult<T> => {
+  let raw: unknown;
+  try {
+    raw = parseJSONResponse<unknown>(text);
+  } catch (e) {
+    return { violations: [{ field: '$', message: 'must be valid JSON' }] };
+  }
+  return validate(raw);
+};
+
+// Runs a JSON request and validates the result. If the output is malformed, the model gets
+// one chance to repair it from its own output and the list of problems, without the source document.
+const generateValidated = async <T>(
+  provider: AIProvider,
+  request: GenerateRequest,
+  validate: (raw: unknown) => ValidationResult<T>,
+  fn: string,
+  onStage?: (stage: AnalysisStage) => void
+): Promise<T> => {
+  const response = await generateWithRetry(provider, request, fn, onStage);
+  onStage?.('validating');
+  const first = parseAndValidate(response.text, validate);
+  if (first.value) return first.value;
+
+  console.warn("AI response failed validation, requesting repair", first.violations);
+
+  const repaired = await generateWithRetry(provider, {
+    task: request.task,
+    modelRole: request.modelRole,
+    contents: PROMPTS.jsonRepair.render({
+      problems: first.violations.map(v => `- ${v.field}: ${v.message}`).join('\n        '),
+      previousOutput: response.text || '(empty)',
+    }),
+    responseSchema: request.responseSchema,
+    temperature: PROMPTS.jsonRepair.temperature,
+    abortSignal: request.abortSignal,
+  }, fn, onStage);
+  onStage?.('validating');
+  const second = parseAndValidate(repaired.text, validate);
+  if (second.value) return second.value;
+
+  throw new AIValidationError(second.violations);
+};
+
+const buildProvenance = <Args>(model: string, prompt: PromptDefinition<Args>): Provenance => ({
+  model,
+  promptVersion: promptVersion(prompt),
+  temperature: prompt.temperature,
+  createdAt: Date.now(),
+});
+
+// Part of the cache key, so bumping the prompt version stops cached analyses from being reused
+export const ANALYSIS_PROMPT_VERSION = promptVersion(PROMPTS.contractAnalysis);
+
+// Steps of analyzing one file. Reading and saving happen around analyzeContract, in the upload queue.
+export type AnalysisStage = 'reading' | 'preparing' | 'extracting' | 'sending' | 'waiting' | 'validating' | 'saving';
+
+export const ANALYSIS_STAGES: AnalysisStage[] = ['reading', 'preparing', 'extracting', 'sending', 'waiting', 'validating', 'saving'];
+
+export const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+  reading: 'Reading file',
+  preparing: 'Preparing the request',
+  extracting: 'Extracting text',
+  sending: 'Sending to the AI service',
+  waiting: 'Waiting for the model',
+  validating: 'Checking the response',
+  saving: 'Saving',
+};
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  section: number; // 1-based; 0 until the document is split into sections
+  totalSections: number;
+  label: string;
+}
+
+export interface AnalyzeOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Skip the analysis cache and always ask the AI again
+  forceRefresh?: boolean;
+  signal?: AbortSignal; // Stops the analysis between and during model calls
+}
+
+const analyzeSection = async (
+  provider: AIProvider,
+  section: DocumentSection,
+  totalSections: number,
+  outputLanguage: string,
+  signal?: AbortSignal,
+  onStage?: (stage: AnalysisStage) => void
+): Promise<ContractAnalysis> => {
+  // Text documents skip OCR: the text goes in as-is and the model does not transcribe it back
+  const textInput = section.text !== undefined;
+  const sectionNote = totalSections > 1
+    ? `NOTE: This is part ${section.index + 1} of ${totalSections} (${section.label}) of a longer document. ${textInput ? 'Analyze' : 'Transcribe and analyze'} only this part; a clause may start or end mid-sentence at the part boundary.`
+    : '';
+
+  return generateValidated(provider, {
+    task: 'analyze',
+    modelRole: 'analysis',
+    contents: [
+      {
+        role: "user",
+        parts: [
+          textInput
+            ? { text: `DOCUMENT TEXT:\n${section.text}` }
+            : {
+                inlineData: {
+                  mimeType: section.mimeType,
+                  data: section.base64Data,
+                },
+              },
+          {
+            text: PROMPTS.contractAnalysis.render({ sectionNote, language: languageName(outputLanguage), textInput }),
+          },
+        ],
+      },
+    ],
+    responseSchema: PROMPTS.contractAnalysis.responseSchema,
+    temperature: PROMPTS.contractAnalysis.temperature,
+    abortSignal: signal,
+  }, validateContractAnalysis, 'analyzeContract', onStage);
+};
+
+// Reduce step: turn the per-section summaries into one. Falls back to joining them.
+const combineSectionSummaries = async (
+  provider: AIProvider,
+  parts: ContractAnalysis[],
+  outputLanguage: string,
+  signal?: AbortSignal,
+  onStage?: (stage: AnalysisStage) => void
+): Promise<string> => {
+  const sectionSummaries = parts.map((part, index) => `PART ${index + 1}: ${part.summary}`).join('\n\n');
+
+  try {
+    const response = await generateWithRetry(provider, {
+      task: 'analyze',
+      modelRole: 'analysis',
+      contents: PROMPTS.sectionSummaries.render({ sectionSummaries, language: languageName(outputLanguage) }),
+      responseSchema: PROMPTS.sectionSummaries.responseSchema,
+      temperature: PROMPTS.sectionSummaries.temperature,
+      abortSignal: signal,
+    }, 'analyzeContract', onStage);
+    return parseJSONResponse<{ summary: string }>(response.text).summary;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Failed to combine section summaries", error);
+    return parts.map(part => part.summary).filter(Boolean).join('\n\n');
+  }
+};
+
+// Text, Markdown and Word documents are read locally, and so are PDF pages with a text layer.
+// Only images and scanned pages need the model's OCR.
+const extractText = async (base64Data: string, mimeType: string) => {
+  const fileText = await extractDocumentText(base64Data, mimeType);
+  const pdfPages = mimeType === 'application/pdf' ? await extractPdfPageTexts(base64Data) : null;
+  const ocrPages = pdfPages ? scannedPages(pdfPages) : [];
+  const textExtraction: TextExtraction = fileText !== null ? 'text'
+    : !pdfPages || ocrPages.length === pdfPages.length ? 'ocr'
+    : ocrPages.length > 0 ? 'pdf-mixed' : 'pdf-text';
+  // The whole text, when none of it needs OCR
+  const documentText = fileText ?? (textExtraction === 'pdf-text' ? pdfPages!.join(PAGE_BREAK) : null);
+  return { fileText, pdfPages, ocrPages, textExtraction, documentText };
+};
+
 export const analyzeContract = async (
   base64Data: string,
-  mimeType: string
+  mimeType: string,
+  options: AnalyzeOptions = {}
 ): Promise<ContractAnalysis> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing. Please set process.env.API_KEY.");
+  const provider = getAIProvider();
+  let current = { section: 0, totalSections: 0, label: '' };
+  const report = (stage: AnalysisStage) => options.onProgress?.({ stage, ...current });
+
+  // Fall back to the offline keyword rules when there is no AI to ask
+  if (!provider.isConfigured()) {
+    report('extracting');
+    const { documentText, textExtraction } = await extractText(base64Data, mimeType);
+    if (documentText !== null) {
+      return { ...analyzeTextWithRules(documentText), textExtraction };
+    }
+    throw new AuthError("API Key is missing. Please set GEMINI_API_KEY in .env.local. Offline analysis is only available for text documents and PDFs with a text layer.");
+  }
+
+  // Hashing the raw file and the model lookup; 'sending' comes from each model call
+  report('preparing');
+  const contentHash = await hashContent(base64Data);
+  const model = await provider.resolveModel('analysis');
+  const outputLanguage = currentOutputLanguage();
+  // The same file explained in another language is a different result
+  const cacheVersion = `${ANALYSIS_PROMPT_VERSION}:${outputLanguage}`;
+  if (contentHash && !options.forceRefresh) {
+    const cached = getCachedAnalysis(contentHash, model, cacheVersion);
+    if (cached) {
+      // Entries stored before checklists existed are checked on the way out
+      const analysis = cached.analysis.missingProtections ? cached.analysis : applyChecklist(cached.analysis);
+      return { ...analysis, contentHash, cachedAt: cached.createdAt };
+    }
   }
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  // Only after the cache lookup, so a cached file is not parsed again
+  report('extracting');
+  const { fileText, pdfPages, ocrPages, textExtraction, documentText } = await extractText(base64Data, mimeType);
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-lite",
-      contents: [
-        {
-          role: "user",
-          parts: [
-            {
-              inlineData: {
-                mimeType: mimeType,
-                data: base64Data,
-              },
-            },
-            {
-              text: `You are an expert legal aide for non-lawyers. Analyze this document.
-              
-              Task 1: Optical Character Recognition (OCR)
-              Extract and transcribe the full text of the document into the 'fullText' field. Be as accurate as possible.
-
-              Task 2: Document Classification & Risk Analysis
-              First, determine if the document contains legal terms, obligations, or contractual language.
-              
-              IF THE DOCUMENT IS NOT A LEGAL CONTRACT (e.g., a receipt, a random image, a simple letter, or text without legal obligations):
-              - Set 'overallRisk' to "Low".
-              - Set 'riskScore' to 0.
-              - In the 'summary', clearly state: "This document does not appear to contain any legal terms or binding obligations."
-              - Return an empty list for 'clauses' or a single clause stating it is safe.
-              
-              IF IT IS A CONTRACT, strictly evaluate risk levels based on the following criteria:
-              
-              1. HIGH RISK (Red):
-                 - Unlimited liability.
-                 - Unilateral termination without cause.
-                 - Waiver of rights (jury trial, class action).
-                 - Automatic renewal with difficult cancellation.
-              
-              2. MEDIUM RISK (Amber):
-                 - Ambiguous terms.
-                 - Unbalanced indemnification.
-                 - Long notice periods.
-              
-              3. LOW RISK (Green):
-                 - Standard boilerplate.
-                 - Mutual obligations.
-                 - Clear pricing.
-
-              Identify key clauses. For each clause:
-              1. **Simple English**: Explain the clause in plain, simple English suitable for a 6th grader.
-              2. **Risk Type**: In the 'reason' field, START with the type of risk (e.g., "Payment Risk", "Termination Risk", "Data Privacy Risk", "Liability Risk").
-              3. **No Statutes**: Do NOT mention specific section numbers of any external law, statute, or act (e.g., do not say "Under UCC 2-207" or "Section 10 of Contract Act"). If you must refer to legal concepts, use "general contract law principles".
-              4. **Disclaimer**: Implicitly suggest in the explanation that for specific legal interpretations, one should consult a lawyer.
-
-              Return the result in the specified JSON format.`,
-            },
-          ],
-        },
-      ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        temperature: 0.2,
-      },
-    });
+    const sections = fileText !== null ? splitTextDocument(fileText)
+      : textExtraction === 'ocr' ? await splitDocument(base64Data, mimeType)
+      : await splitPdfByTextLayer(base64Data, pdfPages!);
+
+    // Sections run one after another to stay within rate limits
+    const parts: ContractAnalysis[] = [];
+    for (const section of sections) {
+      options.signal?.throwIfAborted();
+      current = { section: section.index + 1, totalSections: sections.length, label: section.label };
+      parts.push(await analyzeSection(provider, section, sections.length, outputLanguage, options.signal, report));
+    }
 
-    return parseJSONResponse<ContractAnalysis>(response.text);
+    const analysis = mergeAnalyses(parts);
+    if (parts.length > 1) {
+      current = { ...current, label: 'Summary of all sections' };
+      analysis.summary = await combineSectionSummaries(provider, parts, outputLanguage, options.signal, report);
+    }
+
+    // Extracted text is exact, so it replaces the model's (empty) transcription. OCR fills in scanned pages,
+    // with page breaks placed from the page range of each section.
+    const fullText = fileText ?? joinSectionTexts(sections, parts.map(part => part.fullText || ''));
+    const result: ContractAnalysis = applyChecklist({
+      ...analysis,
+      fullText,
+      textExtraction,
+      ...(textExtraction === 'pdf-mixed' ? { ocrPages } : {}),
+      clauses: anchorClauses(analysis.clauses, fullText),
+      sourceLanguage: analysis.sourceLanguage || (fullText ? detectLanguage(fullText) : undefined),
+      outputLanguage,
+      source: 'ai',
+      ruleBaseline: fullText ? buildRuleBaseline(fullText) : undefined,
+      contentHash: contentHash || undefined,
+      provenance: buildProvenance(model, PROMPTS.contractAnalysis),
+    });
+    if (contentHash) {
+      cacheAnalysis(contentHash, model, cacheVersion, result);
+    }
+    return result;
 
   } catch (error) {
+    if (options.signal?.aborted) throw error;
+    // The proxy server reports a missing key as an auth error. Network failures, a proxy that is down
+    // and server errors that outlasted the retries all come back as transient.
+    const kind = classifyAIError(error).kind;
+    if (documentText !== null && (kind === 'auth' || kind === 'transient')) {
+      console.warn(`AI service unavailable (${kind}), using offline analysis`, error);
+      return { ...analyzeTextWithRules(documentText), textExtraction };
+    }
     handleGenAIError(error);
   }
 };
 
-export const askClauseQuestion = async (
-  clauseText: string,
-  question: string
-): Promise<string> => {
-  if (!API_KEY) return "API Key missing.";
+export interface StreamOptions {
+  // Called with the full text received so far, after every chunk
+  onChunk?: (textSoFar: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface StreamedText {
+  text: string;
+  status: ResponseStatus;
+  error?: AIServiceError; // Set when status is 'failed'
+}
+
+// Rough count (about 4 characters a token) for streams that end before the backend reports usage
+const CHARS_PER_TOKEN = 4;
+
+const estimateUsage = (request: GenerateRequest, output: string): TokenUsage => {
+  const contents = typeof request.contents === 'string'
+    ? request.contents
+    : request.contents.flatMap(content => content.parts.map(part => part.text || '')).join('');
+  const input = (request.systemInstruction || '') + contents;
+  return {
+    inputTokens: Math.ceil(input.length / CHARS_PER_TOKEN),
+    outputTokens: Math.ceil(output.length / CHARS_PER_TOKEN),
+  };
+};
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+// Streams a text response, keeping whatever arrived if the user stops it or the connection drops.
+// Failures before the first chunk are retried; if nothing ever arrives, the typed error is thrown.
+const streamText = async (
+  request: GenerateRequest,
+  options: StreamOptions,
+  emptyText: string,
+  fn: string
+): Promise<StreamedText> => {
+  const provider = getAIProvider();
+  if (!provider.isConfigured()) throw missingKeyError();
+
+  let text = '';
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-lite",
-      contents: `
-        Context: The user is asking about a specific legal clause.
-        Clause: "${clauseText}"
-        
-        User Question: "${question}"
-        
-        Answer the question simply and clearly for a layperson. Do NOT cite specific external law sections. Keep it brief.
-      `,
+    await withRetry(async () => {
+      const startedAt = Date.now();
+      const stream = provider.generateStream({ ...request, abortSignal: options.signal });
+      try {
+        while (true) {
+          const next = await stream.next();
+          if (next.done === true) {
+            recordUsage(fn, await provider.resolveModel(request.modelRole), next.value, Date.now() - startedAt);
+            break;
+          }
+          text += next.value;
+          options.onChunk?.(text);
+        }
+      } catch (error) {
+        // Stopped or dropped streams are billed all the same but never report usage, so they are metered with an estimate
+        if (text || options.signal?.aborted) {
+          recordUsage(fn, await provider.resolveModel(request.modelRole), estimateUsage(request, text), Date.now() - startedAt);
+        }
+        throw error;
+      }
+    }, {
+      signal: options.signal,
+      shouldRetry: () => text === '',
     });
+  } catch (error) {
+    if (options.signal?.aborted) {
+      return { text, status: 'stopped' };
+    }
+    const aiError = classifyAIError(error);
+    if (!text) throw aiError;
+    console.error("Streaming interrupted:", error);
+    return { text, status: 'failed', error: aiError };
+  }
+
+  if (options.signal?.aborted) {
+    return { text, status: 'stopped' };
+  }
+  return { text: text || emptyText, status: 'complete' };
+};
+
+const buildClauseQuestionRequest = (clauseText: string, question: string): GenerateRequest => ({
+  task: 'clause-question',
+  modelRole: 'analysis',
+  contents: PROMPTS.clauseQuestion.render({ clauseText, question, language: languageName(currentOutputLanguage()) }),
+});
+
+export const streamClauseQuestion = async (
+  clauseText: string,
+  question: string,
+  options: StreamOptions = {}
+): Promise<StreamedText> => {
+  return streamText(
+    buildClauseQuestionRequest(clauseText, question),
+    options,
+    "Could not generate an answer.",
+    'streamClauseQuestion'
+  );
+};
 
-    return response.text || "Could not generate an answer.";
+// Proposes fairer wording for a risky clause; the user accepts, edits or discards it
+export const suggestClauseRewrite = async (clause: Clause): Promise<ClauseRewrite> => {
+  const provider = getAIProvider();
+  if (!provider.isConfigured()) throw missingKeyError();
+
+  try {
+    const suggestion = await generateValidated(provider, {
+      task: 'clause-question',
+      modelRole: 'analysis',
+      contents: PROMPTS.clauseRewrite.render({
+        clauseText: clause.text,
+        riskLevel: clause.riskLevel,
+        reason: clause.reason,
+        language: languageName(currentOutputLanguage()),
+      }),
+      responseSchema: PROMPTS.clauseRewrite.responseSchema,
+      temperature: PROMPTS.clauseRewrite.temperature,
+    }, validateClauseRewrite, 'suggestClauseRewrite');
+    const model = await provider.resolveModel('analysis');
+    return { ...suggestion, status: 'suggested', provenance: buildProvenance(model, PROMPTS.clauseRewrite) };
   } catch (error) {
-    console.error("Error asking question:", error);
-    // Return a soft error for chat interactions instead of throwing
-    return "Sorry, I couldn't answer that right now due to a connection issue.";
+    handleGenAIError(error);
   }
 };
 
-export const sendChatMessage = async (
+const buildChatRequest = (
   history: ChatMessage[],
   newMessage: string,
-  contractContext: string = ''
-): Promise<string> => {
-  if (!API_KEY) return "API Key missing.";
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-
+  contractContext: string
+): GenerateRequest => {
   // Format history for the API
-  const contents = history.map(msg => ({
+  const contents: AIContent[] = history.map(msg => ({
     role: msg.role,
     parts: [{ text: msg.text }]
   }));
@@ -252,55 +461,41 @@ export const sendChatMessage = async (
     parts: [{ text: newMessage }]
   });
 
-  const systemInstruction = `
-    You are LegalLens AI, a helpful legal assistant specialized in contract analysis.
-    
-    ${contractContext ? `
-    CURRENT CONTRACT CONTEXT:
-    ${contractContext}
-    
-    INSTRUCTIONS:
-    1. **Cite Contract Sections:** You MAY reference specific section numbers found within the document itself (e.g., "Clause 4.1 of this agreement").
-    2. **NO External Statutes:** Do NOT cite specific section numbers of external laws, acts, or codes (e.g., do NOT say "Section 23 of the Contract Act"). Use "general contract law principles" instead.
-    3. **Simple English:** Explain concepts simply.
-    4. **Disclaimer:** Always conclude serious risk assessments with a recommendation to consult a qualified attorney.
-    ` : `
-    INSTRUCTIONS:
-    - You are currently not viewing a specific contract.
-    - Answer general legal questions or guide the user on how to use the app.
-    - Remind the user they can upload a contract for specific analysis.
-    `}
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash", 
-      contents: contents,
-      config: {
-        systemInstruction: systemInstruction,
-        temperature: 0.3,
-      },
-    });
+  return {
+    task: 'chat',
+    modelRole: 'chat',
+    contents: contents,
+    systemInstruction: PROMPTS.chatAssistant.render({ contractContext, language: languageName(currentOutputLanguage()) }),
+    temperature: PROMPTS.chatAssistant.temperature,
+  };
+};
 
-    return response.text || "I couldn't generate a response.";
-  } catch (error) {
-    console.error("Error in chat:", error);
-    return "Sorry, I'm having trouble connecting right now. Please try again.";
-  }
+export const streamChatMessage = async (
+  history: ChatMessage[],
+  newMessage: string,
+  contractContext: string = '',
+  options: StreamOptions = {}
+): Promise<StreamedText> => {
+  return streamText(
+    buildChatRequest(history, newMessage, contractContext),
+    options,
+    "I couldn't generate a response.",
+    'streamChatMessage'
+  );
 };
 
 export const compareContracts = async (
   contracts: Contract[]
 ): Promise<ComparisonResult> => {
-  if (!API_KEY) throw new Error("API Key missing");
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const provider = getAIProvider();
+  if (!provider.isConfigured()) throw missingKeyError();
 
   // Dynamically build context for all contracts
   const contractsContext = contracts.map((c) => {
       const summary = JSON.stringify({
           id: c.id,
           name: c.fileName,
+          contractType: c.analysis?.contractType,
           riskScore: c.analysis?.riskScore,
           overallRisk: c.analysis?.overallRisk,
           summary: c.analysis?.summary,
@@ -310,27 +505,14 @@ export const compareContracts = async (
   }).join('\n\n----------------\n\n');
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-lite",
-      contents: `
-        Compare these ${contracts.length} contracts based on the provided analysis data.
-        
-        ${contractsContext}
-        
-        Task:
-        1. Determine which contract is safest/best for the user.
-        2. Provide a short reasoning paragraph.
-        3. List key differences.
-        
-        Return JSON matching the schema.
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: comparisonSchema,
-      },
-    });
-
-    return parseJSONResponse<ComparisonResult>(response.text);
+    const comparison = await generateValidated(provider, {
+      task: 'compare',
+      modelRole: 'analysis',
+      contents: PROMPTS.contractComparison.render({ contractCount: contracts.length, contractsContext, language: languageName(currentOutputLanguage()) }),
+      responseSchema: PROMPTS.contractComparison.responseSchema,
+    }, (raw) => validateComparisonResult(raw, contracts), 'compareContracts');
+    const model = await provider.resolveModel('analysis');
+    return { ...comparison, provenance: buildProvenance(model, PROMPTS.contractComparison) };
   } catch (error) {
     handleGenAIError(error);
   }
@@ -342,9 +524,8 @@ export const queryComparisonDifference = async (
   contracts: Contract[],
   focusedDifference: string
 ): Promise<string> => {
-  if (!API_KEY) return "API Key missing.";
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const provider = getAIProvider();
+  if (!provider.isConfigured()) throw missingKeyError();
 
   // Construct a condensed context of all involved contracts
   const contractsContext = contracts.map((c) => {
@@ -355,7 +536,7 @@ export const queryComparisonDifference = async (
   }).join('\n\n');
 
   // Format history for the API
-  const contents = history.map(msg => ({
+  const contents: AIContent[] = history.map(msg => ({
     role: msg.role,
     parts: [{ text: msg.text }]
   }));
@@ -366,32 +547,16 @@ export const queryComparisonDifference = async (
     parts: [{ text: newMessage }]
   });
 
-  const systemInstruction = `
-    You are an expert legal aide assisting a user who is comparing multiple contracts.
-    
-    CONTEXT OF CONTRACTS:
-    ${contractsContext}
-    
-    FOCUS TOPIC:
-    The user is specifically asking about this identified difference: "${focusedDifference}"
-    
-    INSTRUCTIONS:
-    - Explain simply how this difference manifests.
-    - Do NOT cite external law sections.
-    `;
-
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+    const response = await generateWithRetry(provider, {
+      task: 'compare',
+      modelRole: 'chat',
       contents: contents,
-      config: {
-        systemInstruction: systemInstruction,
-      },
-    });
+      systemInstruction: PROMPTS.comparisonDifference.render({ contractsContext, focusedDifference, language: languageName(currentOutputLanguage()) }),
+    }, 'queryComparisonDifference');
 
     return response.text || "I couldn't generate a response.";
   } catch (error) {
-    console.error("Error in comparison chat:", error);
-    return "Sorry, I'm having trouble connecting right now. Please try again.";
+    handleGenAIError(error);
   }
 };
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { KeyFact, KeyFacts } from "../types";
+
+export type SingleFactKey = 'effectiveDate' | 'expiryDate' | 'renewalTerms' | 'noticePeriod' | 'liabilityCap' | 'governingLaw';
+export type ListFactKey = 'parties' | 'fees';
+
+// Display order for the panel and the PDF report
+export const KEY_FACT_FIELDS: { key: SingleFactKey | ListFactKey; label: string; list?: boolean }[] = [
+  { key: 'parties', label: 'Parties', list: true },
+  { key: 'effectiveDate', label: 'Effective Date' },
+  { key: 'expiryDate', label: 'Expiry Date' },
+  { key: 'renewalTerms', label: 'Renewal Terms' },
+  { key: 'noticePeriod', label: 'Notice Period' },
+  { key: 'fees', label: 'Fees & Amounts', list: true },
+  { key: 'liabilityCap', label: 'Liability Cap' },
+  { key: 'governingLaw', label: 'Governing Law' },
+];
+
+const LIST_FACT_KEYS: ListFactKey[] = ['parties', 'fees'];
+const SINGLE_FACT_KEYS: SingleFactKey[] = ['effectiveDate', 'expiryDate', 'renewalTerms', 'noticePeriod', 'liabilityCap', 'governingLaw'];
+
+export const emptyKeyFacts = (): KeyFacts => ({ parties: [], fees: [] });
+
+export const factsFor = (facts: KeyFacts, key: SingleFactKey | ListFactKey): KeyFact[] => {
+  const value = facts[key];
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+export const hasKeyFacts = (facts: KeyFacts | undefined): boolean =>
+  !!facts && KEY_FACT_FIELDS.some(field => factsFor(facts, field.key).length > 0);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Models often answer "Not specified" instead of leaving a fact out
+const NOT_STATED = /^(n\/?a|none|null|unknown|not (specified|stated|mentioned|found|applicable))\.?$/i;
+
+const toFact = (raw: unknown): KeyFact | undefined => {
+  if (typeof raw === 'string') raw = { value: raw };
+  if (!isObject(raw) || typeof raw.value !== 'string') return undefined;
+  const value = raw.value.trim();
+  if (!value || NOT_STATED.test(value)) return undefined;
+  const sourceQuote = typeof raw.sourceQuote === 'string' && raw.sourceQuote.trim() ? raw.sourceQuote.trim() : undefined;
+  return { value, sourceQuote, ...(raw.edited === true ? { edited: true } : {}) };
+};
+
+const toFacts = (raw: unknown): KeyFact[] =>
+  Array.isArray(raw) ? raw.map(toFact).filter((fact): fact is KeyFact => !!fact) : [];
+
+// Lenient: anything malformed is dropped rather than failing the whole analysis
+export const normalizeKeyFacts = (raw: unknown): KeyFacts | undefined => {
+  if (!isObject(raw)) return undefined;
+  const facts: KeyFacts = emptyKeyFacts();
+  LIST_FACT_KEYS.forEach(key => {
+    facts[key] = toFacts(raw[key]);
+  });
+  SINGLE_FACT_KEYS.forEach(key => {
+    const fact = toFact(raw[key]);
+    if (fact) facts[key] = fact;
+  });
+  return facts;
+};
+
+const factKey = (fact: KeyFact) => fact.value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Combines the facts found in each section: lists are unioned, single facts keep the first one found
+export const mergeKeyFacts = (parts: (KeyFacts | undefined)[]): KeyFacts | undefined => {
+  const present = parts.filter((facts): facts is KeyFacts => !!facts);
+  if (present.length === 0) return undefined;
+
+  const merged: KeyFacts = emptyKeyFacts();
+  LIST_FACT_KEYS.forEach(key => {
+    const seen = new Set<string>();
+    merged[key] = present.flatMap(facts => facts[key]).filter(fact => {
+      if (seen.has(factKey(fact))) return false;
+      seen.add(factKey(fact));
+      return true;
+    });
+  });
+  SINGLE_FACT_KEYS.forEach(key => {
+    const fact = present.map(facts => facts[key]).find(Boolean);
+    if (fact) merged[key] = fact;
+  });
+  return merged;
+};
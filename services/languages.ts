@@ -0,0 +1,100 @@
+import { storageService } from "./storageService";
+
+// Languages the AI can explain contracts in. Codes are ISO 639-1.
+
+export interface Language {
+  code: string;
+  name: string; // English name, used in prompts
+  nativeName: string;
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська' },
+  { code: 'el', name: 'Greek', nativeName: 'Ελληνικά' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย' },
+];
+
+export const findLanguage = (code: string | undefined): Language | undefined =>
+  code ? LANGUAGES.find(language => language.code === code.toLowerCase().split('-')[0]) : undefined;
+
+// English name for prompts and labels; unknown codes are shown as given
+export const languageName = (code: string | undefined): string =>
+  findLanguage(code)?.name || code || findLanguage(DEFAULT_LANGUAGE)!.name;
+
+// The signed-in user's choice from their profile
+export const currentOutputLanguage = (): string =>
+  storageService.getCurrentUser()?.outputLanguage || DEFAULT_LANGUAGE;
+
+// Scripts that identify a language (or a small family) on their own
+const SCRIPTS: [RegExp, string][] = [
+  [/[぀-ヿ]/g, 'ja'], // Kana, checked before Han
+  [/[가-힯]/g, 'ko'],
+  [/[一-鿿]/g, 'zh'],
+  [/[؀-ۿ]/g, 'ar'],
+  [/[֐-׿]/g, 'he'],
+  [/[ऀ-ॿ]/g, 'hi'],
+  [/[ঀ-৿]/g, 'bn'],
+  [/[஀-௿]/g, 'ta'],
+  [/[ఀ-౿]/g, 'te'],
+  [/[฀-๿]/g, 'th'],
+  [/[Ͱ-Ͽ]/g, 'el'],
+  [/[Ѐ-ӿ]/g, 'ru'],
+];
+
+// Common short words of Latin-script languages
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'shall', 'this', 'agreement', 'with', 'any', 'party'],
+  es: ['el', 'la', 'de', 'que', 'los', 'las', 'del', 'contrato', 'por', 'con'],
+  fr: ['le', 'la', 'les', 'des', 'du', 'et', 'est', 'contrat', 'pour', 'dans'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'vertrag', 'mit', 'den', 'von'],
+  pt: ['o', 'a', 'os', 'do', 'da', 'que', 'não', 'contrato', 'com', 'para'],
+  it: ['il', 'di', 'che', 'della', 'del', 'per', 'contratto', 'non', 'con', 'gli'],
+  nl: ['de', 'het', 'een', 'van', 'en', 'is', 'overeenkomst', 'niet', 'met', 'voor'],
+  pl: ['i', 'w', 'na', 'nie', 'się', 'z', 'umowy', 'do', 'jest', 'przez'],
+  tr: ['ve', 'bir', 'bu', 'ile', 'için', 'olarak', 'sözleşme', 'da', 'de', 'veya'],
+  id: ['dan', 'yang', 'di', 'dengan', 'untuk', 'ini', 'perjanjian', 'dari', 'pihak', 'atau'],
+};
+
+// Cheap guess used for offline analyses and when the model leaves the language out
+export const detectLanguage = (text: string): string | undefined => {
+  const sample = text.slice(0, 5000);
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters < 20) return undefined;
+
+  for (const [pattern, code] of SCRIPTS) {
+    if ((sample.match(pattern) || []).length / letters > 0.2) return code;
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  let best: { code: string; hits: number } | undefined;
+  Object.entries(STOPWORDS).forEach(([code, stopwords]) => {
+    const set = new Set(stopwords);
+    const hits = words.filter(word => set.has(word)).length;
+    if (!best || hits > best.hits) best = { code, hits };
+  });
+  return best && best.hits >= 3 ? best.code : undefined;
+};
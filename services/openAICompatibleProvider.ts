@@ -0,0 +1,207 @@
+import type { Schema } from "@google/genai";
+import type { TokenUsage } from "../types";
+import type { AIConfig } from "./aiConfig";
+import type { AIContent, AIPart, AIProvider, GenerateRequest } from "./aiProvider";
+
+// Talks to any server exposing the OpenAI chat completions API
+// (Ollama, llama.cpp server, vLLM, LM Studio, OpenAI itself...).
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+const toTokenUsage = (usage?: ChatCompletionUsage | null): TokenUsage | undefined =>
+  usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : undefined;
+
+// Strict mode has no optional properties: the model must send null instead of leaving one out
+const nullable = (schema: Record<string, unknown>): Record<string, unknown> => ({
+  ...schema,
+  type: [schema.type, 'null'],
+  ...(Array.isArray(schema.enum) ? { enum: [...schema.enum, null] } : {}),
+});
+
+// Gemini schemas use upper-case type names ("OBJECT", "STRING"); JSON Schema wants lower-case.
+// The result is written for strict structured outputs, where every property must be listed as required.
+export const toJSONSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJSONSchema(schema.items);
+  if (schema.properties) {
+    const required = schema.required || [];
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => {
+        const converted = toJSONSchema(value);
+        return [key, required.includes(key) ? converted : nullable(converted)];
+      })
+    );
+    result.required = Object.keys(schema.properties);
+    result.additionalProperties = false;
+  }
+
+  return result;
+};
+
+const toContentPart = (part: AIPart): ChatContentPart => {
+  if (part.inlineData) {
+    if (!part.inlineData.mimeType.startsWith('image/')) {
+      throw new Error(`The configured AI provider cannot read ${part.inlineData.mimeType} files. Only images are supported.`);
+    }
+    return {
+      type: 'image_url',
+      image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+    };
+  }
+  return { type: 'text', text: part.text || '' };
+};
+
+const toMessages = (contents: AIContent[] | string, systemInstruction?: string): ChatCompletionMessage[] => {
+  const messages: ChatCompletionMessage[] = [];
+
+  if (systemInstruction) {
+    messages.push({ role: 'system', content: systemInstruction });
+  }
+
+  if (typeof contents === 'string') {
+    messages.push({ role: 'user', content: contents });
+    return messages;
+  }
+
+  contents.forEach(content => {
+    const role = content.role === 'model' ? 'assistant' : 'user';
+    const textOnly = content.parts.every(part => !part.inlineData);
+    messages.push({
+      role,
+      content: textOnly
+        ? content.parts.map(part => part.text || '').join('\n')
+        : content.parts.map(toContentPart),
+    });
+  });
+
+  return messages;
+};
+
+export const createOpenAICompatibleProvider = (config: AIConfig): AIProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const buildBody = (request: GenerateRequest, model: string, stream: boolean) => {
+    const body: Record<string, unknown> = {
+      model,
+      messages: toMessages(request.contents, request.systemInstruction),
+      stream,
+    };
+    if (stream) {
+      // Adds a final chunk with the token counts
+      body.stream_options = { include_usage: true };
+    }
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+    if (request.responseSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', strict: true, schema: toJSONSchema(request.responseSchema) },
+      };
+    }
+    return body;
+  };
+
+  const postCompletion = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      // The status field is what classifyAIError reads; the message is for people.
+      throw Object.assign(new Error(`${response.status} ${response.statusText}: ${detail}`.trim()), { status: response.status });
+    }
+    return response;
+  };
+
+  return {
+    name: 'openai-compatible',
+
+    // Local servers usually run without a key, so a base URL is enough.
+    isConfigured: () => Boolean(config.baseUrl),
+
+    modelFor: (role) => config.models[role],
+
+    resolveModel: async (role) => config.models[role],
+
+    generate: async (request: GenerateRequest) => {
+      const model = config.models[request.modelRole];
+      const pending = postCompletion(buildBody(request, model, false), request.abortSignal);
+      request.onSent?.();
+      const response = await pending;
+
+      const data = await response.json() as ChatCompletionResponse;
+      const text = data.choices?.[0]?.message?.content ?? undefined;
+
+      return { text, model: data.model || model, usage: toTokenUsage(data.usage) };
+    },
+
+    generateStream: async function* (request: GenerateRequest) {
+      const model = config.models[request.modelRole];
+      const response = await postCompletion(buildBody(request, model, true), request.abortSignal);
+      if (!response.body) {
+        throw new Error("Streaming is not supported by this AI server.");
+      }
+
+      // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]".
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let usage: TokenUsage | undefined;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return usage;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload) continue;
+          if (payload === '[DONE]') return usage;
+
+          const data = JSON.parse(payload) as ChatCompletionChunk;
+          const delta = data.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+          usage = toTokenUsage(data.usage) || usage;
+        }
+      }
+    },
+  };
+};
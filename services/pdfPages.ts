@@ -0,0 +1,34 @@
+import { PDFDocument } from 'pdf-lib';
+import { base64ToBytes } from './base64';
+import { loadPdfJs } from './documentText';
+import { copyPdfPages } from './documentSections';
+
+// Page images and single-page copies of a stored PDF, for looking through the pages of a document
+
+// JPEG data URLs of the given 1-based pages, rendered at scale (1 = 72 dpi)
+export const renderPdfPages = async (base64Data: string, pageNumbers: number[], scale: number): Promise<string[]> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: base64ToBytes(base64Data), isEvalSupported: false }).promise;
+  try {
+    const images: string[] = [];
+    for (const number of pageNumbers) {
+      const page = await pdf.getPage(number);
+      const viewport = page.getViewport({ scale });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      images.push(canvas.toDataURL('image/jpeg', 0.85));
+      page.cleanup();
+    }
+    return images;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// A one-page PDF holding the given 1-based page, as Base64
+export const extractPdfPage = async (base64Data: string, pageNumber: number): Promise<string> => {
+  const source = await PDFDocument.load(base64ToBytes(base64Data), { ignoreEncryption: true });
+  return copyPdfPages(source, pageNumber - 1, pageNumber);
+};
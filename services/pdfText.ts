@@ -0,0 +1,103 @@
+import type { jsPDF } from "jspdf";
+
+// jsPDF's built-in fonts only cover Latin-1. Anything else (Cyrillic, Greek, CJK, Arabic, Indic
+// scripts...) is shaped by the browser on a canvas and placed in the PDF as an image.
+
+export interface ShapedFont {
+  sizePt: number;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  color: [number, number, number];
+}
+
+const MM_PER_PT = 25.4 / 72;
+const PX_PER_MM = 8; // ~200 dpi, sharp when printed without bloating the file
+const ASCENT = 0.9; // of the em size, above the baseline
+const RTL = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+// Typographic punctuation the models like to use, mapped to Latin-1 so it stays real text
+const TYPOGRAPHY: [RegExp, string][] = [
+  [/[\u2018\u2019\u201A\u2032]/g, "'"],
+  [/[\u201C\u201D\u201E\u2033]/g, '"'],
+  [/[\u2013\u2014\u2212]/g, '-'],
+  [/\u2026/g, '...'],
+  [/[\u2022\u25CF]/g, '-'],
+  [/\u20AC/g, 'EUR'],
+  [/[\u2007\u202F\u2009]/g, ' '],
+  [/[\u200B\uFEFF]/g, ''],
+  [/\f/g, '\n'],
+];
+
+export const toStandardText = (text: string): string =>
+  TYPOGRAPHY.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+// True when the text can't be drawn with the standard fonts even after toStandardText
+export const needsShaping = (text: string): boolean => /[^\x00-\xFF]/.test(text);
+
+const fontFor = ({ sizePt, bold, italic }: ShapedFont) =>
+  `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}${sizePt * MM_PER_PT * PX_PER_MM}px sans-serif`;
+
+const context = (font: ShapedFont): CanvasRenderingContext2D => {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available for PDF text rendering");
+  ctx.font = fontFor(font);
+  return ctx;
+};
+
+// Breaks on whitespace where the script has it, otherwise (CJK, Thai) between characters
+export const wrapShapedText = (text: string, font: ShapedFont, maxWidthMm: number): string[] => {
+  const ctx = context(font);
+  const maxWidth = maxWidthMm * PX_PER_MM;
+  const fits = (line: string) => ctx.measureText(line).width <= maxWidth;
+  const lines: string[] = [];
+
+  toStandardText(text).split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/(\s+)/).forEach(token => {
+      if (!token) return;
+      if (fits(line + token)) {
+        line += token;
+        return;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = '';
+      if (/^\s+$/.test(token)) return;
+      for (const char of Array.from(token)) {
+        if (line && !fits(line + char)) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+// Draws one wrapped line so that its baseline sits at y, like doc.text does
+export const drawShapedLine = (doc: jsPDF, line: string, font: ShapedFont, x: number, y: number, widthMm: number, heightMm: number) => {
+  if (!line) return;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(widthMm * PX_PER_MM);
+  canvas.height = Math.ceil(heightMm * PX_PER_MM);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available for PDF text rendering");
+
+  const rtl = RTL.test(line);
+  ctx.font = fontFor(font);
+  ctx.fillStyle = `rgb(${font.color.join(',')})`;
+  ctx.textBaseline = 'alphabetic';
+  ctx.direction = rtl ? 'rtl' : 'ltr';
+  ctx.textAlign = rtl ? 'right' : 'left';
+
+  const ascent = font.sizePt * MM_PER_PT * ASCENT;
+  ctx.fillText(line, rtl ? canvas.width : 0, ascent * PX_PER_MM);
+  if (font.strike) {
+    const width = ctx.measureText(line).width;
+    const strikeY = ascent * 0.65 * PX_PER_MM;
+    ctx.fillRect(rtl ? canvas.width - width : 0, strikeY, width, Math.max(1, font.sizePt * 0.05 * PX_PER_MM * MM_PER_PT));
+  }
+  doc.addImage(canvas, 'PNG', x, y - ascent, widthMm, heightMm);
+};
@@ -0,0 +1,149 @@
+import { Clause, ContractAnalysis, PlaybookFinding, PlaybookRule, RiskLevel } from "../types";
+import { storageService } from "./storageService";
+import { clauseCategory, normalizeRiskCategory } from "./riskCategories";
+import { normalizeRiskLevel } from "./responseValidation";
+
+// A team's house rules, checked against every clause after the AI (or offline) analysis.
+// Findings are stored next to the AI's judgment rather than replacing it.
+
+const EXPORT_VERSION = 1;
+
+export const getPlaybook = (userId: string): PlaybookRule[] => storageService.getPlaybook(userId);
+
+export const savePlaybook = (userId: string, rules: PlaybookRule[]) => {
+  storageService.savePlaybook(userId, rules);
+};
+
+// The signed-in user's rules; nobody signed in means no playbook
+export const currentPlaybook = (): PlaybookRule[] => {
+  const user = storageService.getCurrentUser();
+  return user ? getPlaybook(user.id) : [];
+};
+
+export const newPlaybookRule = (): PlaybookRule => ({
+  id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name: '',
+  enabled: true,
+  riskLevel: RiskLevel.HIGH,
+  message: '',
+});
+
+// Problems that would stop the rule from working, or undefined when it is fine
+export const ruleProblem = (rule: PlaybookRule): string | undefined => {
+  if (!rule.name.trim()) return 'Give the rule a name.';
+  if (!rule.message.trim()) return 'Add a message to show when the rule matches.';
+  if (!rule.keywords?.length && !rule.pattern && !rule.category) return 'Add at least one keyword, pattern or category.';
+  if (rule.pattern) {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch (e) {
+      return `The pattern is not a valid regular expression: ${(e as Error).message}`;
+    }
+  }
+  return undefined;
+};
+
+// Matched text when every condition set on the rule holds, otherwise null
+const matchRule = (rule: PlaybookRule, clause: Clause): string[] | null => {
+  if (rule.category && clauseCategory(clause) !== rule.category) return null;
+
+  const matched: string[] = [];
+  const text = clause.text.toLowerCase();
+  if (rule.keywords?.length) {
+    const found = rule.keywords.filter(keyword => text.includes(keyword.toLowerCase()));
+    if (found.length === 0) return null;
+    matched.push(...found);
+  }
+  if (rule.pattern) {
+    const found = Array.from(clause.text.matchAll(new RegExp(rule.pattern, 'gi')), match => match[0]).filter(Boolean);
+    if (found.length === 0) return null;
+    matched.push(...found);
+  }
+  if (rule.category) matched.push(rule.category);
+  return Array.from(new Set(matched));
+};
+
+export const evaluatePlaybook = (clause: Clause, rules: PlaybookRule[]): PlaybookFinding[] =>
+  rules
+    .filter(rule => rule.enabled && !ruleProblem(rule))
+    .map(rule => ({ rule, matched: matchRule(rule, clause) }))
+    .filter((result): result is { rule: PlaybookRule; matched: string[] } => result.matched !== null)
+    .map(({ rule, matched }) => ({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      riskLevel: rule.riskLevel,
+      message: rule.message,
+      matched,
+    }));
+
+// Replaces any earlier findings, so it can be re-run after the playbook changes
+export const applyPlaybook = (analysis: ContractAnalysis, rules: PlaybookRule[]): ContractAnalysis => ({
+  ...analysis,
+  clauses: analysis.clauses.map(clause => {
+    const { playbookFindings: _previous, ...rest } = clause;
+    const findings = evaluatePlaybook(rest, rules);
+    return findings.length > 0 ? { ...rest, playbookFindings: findings } : rest;
+  }),
+});
+
+const RISK_ORDER = [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH];
+
+// The strictest level the playbook assigns to a clause, if any rule matched
+export const playbookRiskLevel = (clause: Clause): RiskLevel | undefined =>
+  (clause.playbookFindings || []).reduce<RiskLevel | undefined>(
+    (worst, finding) => (!worst || RISK_ORDER.indexOf(finding.riskLevel) > RISK_ORDER.indexOf(worst) ? finding.riskLevel : worst),
+    undefined
+  );
+
+export const exportPlaybook = (rules: PlaybookRule[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, rules }, null, 2);
+
+export const downloadPlaybook = (rules: PlaybookRule[], fileName: string) => {
+  const blob = new Blob([exportPlaybook(rules)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts an exported file or a bare array of rules. Throws with a readable message on bad input.
+export const parsePlaybook = (json: string): PlaybookRule[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+  const list = Array.isArray(raw) ? raw : isObject(raw) && Array.isArray(raw.rules) ? raw.rules : null;
+  if (!list) throw new Error("The file does not contain a list of playbook rules.");
+
+  return list.map((item, index) => {
+    if (!isObject(item)) throw new Error(`Rule ${index + 1} is not an object.`);
+    const riskLevel = normalizeRiskLevel(item.riskLevel);
+    if (!riskLevel) throw new Error(`Rule ${index + 1} has no valid riskLevel (High, Medium or Low).`);
+
+    const rule: PlaybookRule = {
+      ...newPlaybookRule(),
+      ...(typeof item.id === 'string' && item.id ? { id: item.id } : {}),
+      name: typeof item.name === 'string' ? item.name : '',
+      enabled: item.enabled !== false,
+      keywords: Array.isArray(item.keywords)
+        ? item.keywords.filter((k): k is string => typeof k === 'string' && k.trim() !== '').map(k => k.trim())
+        : undefined,
+      pattern: typeof item.pattern === 'string' && item.pattern ? item.pattern : undefined,
+      category: normalizeRiskCategory(item.category) || undefined,
+      riskLevel,
+      message: typeof item.message === 'string' ? item.message : '',
+    };
+    const problem = ruleProblem(rule);
+    if (problem) throw new Error(`Rule ${index + 1}${rule.name ? ` ("${rule.name}")` : ''}: ${problem}`);
+    return rule;
+  });
+};
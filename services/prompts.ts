@@ -0,0 +1,376 @@
+import { Type, Schema } from "@google/genai";
+import { RISK_CATEGORIES } from "./riskCategories";
+import { CONTRACT_RUBRICS, CONTRACT_TYPES } from "./contractTypes";
+
+// Versioned prompts and response schemas for every AI call. Bump a prompt's version whenever
+// its wording, schema or temperature changes: the version is stored on each analysis and
+// comparison, and is part of the analysis cache key.
+
+export interface PromptDefinition<Args> {
+  id: string;
+  version: number;
+  temperature?: number; // Undefined means the provider default
+  responseSchema?: Schema;
+  render: (args: Args) => string;
+}
+
+// e.g. "contract-analysis@1"
+export const promptVersion = <Args>(prompt: PromptDefinition<Args>) => `${prompt.id}@${prompt.version}`;
+
+const keyFactSchema = (description: string): Schema => ({
+  type: Type.OBJECT,
+  description,
+  properties: {
+    value: { type: Type.STRING, description: "The fact, stated briefly." },
+    sourceQuote: { type: Type.STRING, description: "The exact passage of the document the fact was taken from." },
+  },
+  required: ["value", "sourceQuote"],
+});
+
+const analysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: "A plain-English summary of the legal contract, suitable for a non-expert.",
+    },
+    overallRisk: {
+      type: Type.STRING,
+      enum: ["Low", "Medium", "High"],
+      description: "The overall risk level of the contract based on the severity of clauses.",
+    },
+    riskScore: {
+      type: Type.INTEGER,
+      description: "A numerical risk score from 0 (completely safe) to 100 (extremely risky). High risk contracts should be >70, Medium 40-70, Low <40. If not a legal document, set to 0.",
+    },
+    clauses: {
+      type: Type.ARRAY,
+      description: "A list of significant clauses found in the contract, especially those with potential risks.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "A unique identifier for the clause (e.g., 'clause-1')." },
+          text: { type: Type.STRING, description: "The original text of the clause." },
+          explanation: { type: Type.STRING, description: "A simple English explanation of what this clause means." },
+          riskLevel: {
+            type: Type.STRING,
+            enum: ["Low", "Medium", "High"],
+            description: "The risk level of this specific clause.",
+          },
+          category: {
+            type: Type.STRING,
+            enum: RISK_CATEGORIES,
+            description: "What the clause is about. Use 'Other' only when no other category fits.",
+          },
+          riskyKeywords: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Specific words or phrases in the text that trigger the risk.",
+          },
+          reason: { type: Type.STRING, description: "Why this clause is or is not risky." },
+          confidence: {
+            type: Type.NUMBER,
+            description: "How sure you are of this clause's text and risk rating, from 0 (guess) to 1 (certain).",
+          },
+        },
+        required: ["id", "text", "explanation", "riskLevel", "category", "riskyKeywords", "reason", "confidence"],
+      },
+    },
+    fullText: {
+      type: Type.STRING,
+      description: "The full raw text transcribed from the document (OCR).",
+    },
+    confidence: {
+      type: Type.NUMBER,
+      description: "How sure you are of the analysis as a whole, from 0 to 1. Lower it for poor scans, missing pages or unusual documents.",
+    },
+    contractType: {
+      type: Type.STRING,
+      enum: CONTRACT_TYPES,
+      description: "The kind of contract. Use 'Other' for anything that fits none of the listed types, including non-legal documents.",
+    },
+    sourceLanguage: {
+      type: Type.STRING,
+      description: "The language the document is written in, as an ISO 639-1 code (e.g. 'en', 'es', 'hi').",
+    },
+    keyFacts: {
+      type: Type.OBJECT,
+      description: "Basic facts of the contract. Leave out any fact the document does not state.",
+      properties: {
+        parties: {
+          type: Type.ARRAY,
+          items: keyFactSchema("A party, with its role in brackets, e.g. 'Acme Ltd (Landlord)'."),
+        },
+        effectiveDate: keyFactSchema("When the contract starts, as YYYY-MM-DD if a full date is given."),
+        expiryDate: keyFactSchema("When the contract ends, as YYYY-MM-DD if a full date is given."),
+        renewalTerms: keyFactSchema("How and for how long the contract renews."),
+        noticePeriod: keyFactSchema("Notice needed to terminate or to stop a renewal, e.g. '30 days'."),
+        fees: {
+          type: Type.ARRAY,
+          items: keyFactSchema("A fee, price, deposit or penalty with its amount and currency, e.g. 'Rent: $1,200 per month'."),
+        },
+        liabilityCap: keyFactSchema("The maximum amount a party can be liable for."),
+        governingLaw: keyFactSchema("The jurisdiction whose law governs the contract."),
+      },
+      required: ["parties", "fees"],
+    },
+  },
+  required: ["summary", "overallRisk", "riskScore", "clauses", "fullText", "confidence", "contractType", "sourceLanguage", "keyFacts"],
+};
+
+const comparisonSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    recommendedId: {
+      type: Type.STRING,
+      description: "The ID of the contract that is safer or more favorable to the user.",
+    },
+    reasoning: {
+      type: Type.STRING,
+      description: "A concise explanation of why the recommended contract is better.",
+    },
+    keyDifferences: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "A list of bullet points highlighting the main differences (e.g., 'Contract A has a non-compete, Contract B does not').",
+    },
+  },
+  required: ["recommendedId", "reasoning", "keyDifferences"],
+};
+
+const summarySchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: "A single plain-English summary of the whole contract, suitable for a non-expert.",
+    },
+  },
+  required: ["summary"],
+};
+
+const rewriteSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: {
+      type: Type.STRING,
+      description: "Balanced replacement wording for the clause, ready to paste into the contract.",
+    },
+    rationale: {
+      type: Type.STRING,
+      description: "Two or three sentences the user can say to the other party to justify the change.",
+    },
+    fallback: {
+      type: Type.STRING,
+      description: "The minimum acceptable compromise if the other party rejects the replacement.",
+    },
+  },
+  required: ["text", "rationale", "fallback"],
+};
+
+// The type-specific adjustments to the general criteria, one block per type
+const rubricText = () => CONTRACT_TYPES
+  .filter(type => CONTRACT_RUBRICS[type].guidance.length > 0)
+  .map(type => `${type}:\n${CONTRACT_RUBRICS[type].guidance.map(line => `               - ${line}`).join('\n')}`)
+  .join('\n            ');
+
+// Explanations follow the user's language; anything quoted from the document stays as written
+const languageRule = (language: string, quotedFields: string) =>
+  `Write all explanations in ${language}, even if the document is in another language. Copy ${quotedFields} exactly as they appear in the original document, without translating them.`;
+
+export const PROMPTS = {
+  contractAnalysis: {
+    id: 'contract-analysis',
+    version: 7,
+    temperature: 0.2,
+    responseSchema: analysisSchema,
+    render: ({ sectionNote, language, textInput }) => `You are an expert legal aide for non-lawyers. Analyze this document.
+            ${sectionNote}
+
+            LANGUAGE: ${languageRule(language, "'fullText', each clause's 'text' and 'riskyKeywords', and every 'sourceQuote'")}
+            Set 'sourceLanguage' to the language of the document.
+            
+            ${textInput ? `Task 1: Reading
+            The document is given above as plain text that was already extracted from the file. Do not transcribe it: set 'fullText' to an empty string.
+            Quote clauses exactly as they appear in that text. Set the top-level 'confidence' lower if the text looks garbled or incomplete.` : `Task 1: Optical Character Recognition (OCR)
+            Extract and transcribe the full text of the document into the 'fullText' field. Be as accurate as possible.
+            Set the top-level 'confidence' lower if parts of the document were blurred, cut off or illegible.`}
+
+            Task 2: Document Classification & Risk Analysis
+            First, determine if the document contains legal terms, obligations, or contractual language,
+            and set 'contractType' to the kind of contract it is (one of: ${CONTRACT_TYPES.join(', ')}).
+            
+            IF THE DOCUMENT IS NOT A LEGAL CONTRACT (e.g., a receipt, a random image, a simple letter, or text without legal obligations):
+            - Set 'overallRisk' to "Low".
+            - Set 'riskScore' to 0.
+            - In the 'summary', clearly state (in ${language}): "This document does not appear to contain any legal terms or binding obligations."
+            - Return an empty list for 'clauses' or a single clause stating it is safe.
+            
+            IF IT IS A CONTRACT, strictly evaluate risk levels based on the following criteria:
+            
+            1. HIGH RISK (Red):
+               - Unlimited liability.
+               - Unilateral termination without cause.
+               - Waiver of rights (jury trial, class action).
+               - Automatic renewal with difficult cancellation.
+            
+            2. MEDIUM RISK (Amber):
+               - Ambiguous terms.
+               - Unbalanced indemnification.
+               - Long notice periods.
+            
+            3. LOW RISK (Green):
+               - Standard boilerplate.
+               - Mutual obligations.
+               - Clear pricing.
+
+            Then apply the rubric for the contract type. Where it conflicts with the general criteria, the rubric wins:
+            ${rubricText()}
+
+            Identify key clauses. For each clause:
+            1. **Simple Language**: Explain the clause in plain, simple ${language} suitable for a 6th grader.
+            2. **Category**: Set 'category' to the one category that best describes the clause (e.g., "Payment", "Termination", "Data Privacy", "Liability"). In the 'reason' field, explain why the clause is or is not risky.
+            3. **No Statutes**: Do NOT mention specific section numbers of any external law, statute, or act (e.g., do not say "Under UCC 2-207" or "Section 10 of Contract Act"). If you must refer to legal concepts, use "general contract law principles".
+            4. **Disclaimer**: Implicitly suggest in the explanation that for specific legal interpretations, one should consult a lawyer.
+            5. **Confidence**: Set 'confidence' honestly. Use a low value when the text was hard to read, the wording is unusual, or the risk depends on facts you cannot see.
+
+            Task 3: Key Facts
+            Fill 'keyFacts' with the parties, effective and expiry dates, renewal terms, notice period, fees and amounts, liability cap and governing law.
+            Copy the exact supporting passage into 'sourceQuote'. Leave out any fact the document does not state; never guess.
+
+            Return the result in the specified JSON format.`,
+  } satisfies PromptDefinition<{ sectionNote: string; language: string; textInput: boolean }>,
+
+  // Reduce step for long documents analyzed in sections
+  sectionSummaries: {
+    id: 'section-summaries',
+    version: 2,
+    temperature: 0.2,
+    responseSchema: summarySchema,
+    render: ({ sectionSummaries, language }) => `
+        The following are summaries of consecutive parts of one legal contract.
+        Write a single plain-language summary of the whole contract for a non-expert, in ${language}.
+        Do not mention that the document was split into parts. Do NOT cite external law sections.
+
+        ${sectionSummaries}
+      `,
+  } satisfies PromptDefinition<{ sectionSummaries: string; language: string }>,
+
+  // Sent without the source document; the schema comes from the request being repaired
+  jsonRepair: {
+    id: 'json-repair',
+    version: 1,
+    temperature: 0,
+    render: ({ problems, previousOutput }) => `
+        Your previous JSON output did not match the required format.
+
+        PROBLEMS:
+        ${problems}
+
+        PREVIOUS OUTPUT:
+        ${previousOutput}
+
+        Return the corrected JSON only. Keep every value that was already valid unchanged.
+      `,
+  } satisfies PromptDefinition<{ problems: string; previousOutput: string }>,
+
+  clauseQuestion: {
+    id: 'clause-question',
+    version: 2,
+    render: ({ clauseText, question, language }) => `
+        Context: The user is asking about a specific legal clause.
+        Clause: "${clauseText}"
+        
+        User Question: "${question}"
+        
+        Answer the question simply and clearly for a layperson. Do NOT cite specific external law sections. Keep it brief.
+        ${languageRule(language, 'any words you quote from the clause')}
+      `,
+  } satisfies PromptDefinition<{ clauseText: string; question: string; language: string }>,
+
+  clauseRewrite: {
+    id: 'clause-rewrite',
+    version: 1,
+    temperature: 0.3,
+    responseSchema: rewriteSchema,
+    render: ({ clauseText, riskLevel, reason, language }) => `
+        You are helping a non-lawyer negotiate a contract. This clause was rated ${riskLevel} risk for them.
+        Clause: "${clauseText}"
+        Why it is risky: ${reason}
+
+        Task:
+        1. 'text': Rewrite the clause so it is fair to both parties. Keep its purpose, defined terms and style, and change only what is needed to remove the risk. Write it in the same language as the clause.
+        2. 'rationale': Explain briefly, in ${language}, how the user can argue for the change.
+        3. 'fallback': Describe, in ${language}, the least the user should accept if the other party refuses the rewrite.
+        Do NOT cite specific external law sections.
+      `,
+  } satisfies PromptDefinition<{ clauseText: string; riskLevel: string; reason: string; language: string }>,
+
+  // System instruction for the chat assistant
+  chatAssistant: {
+    id: 'chat-assistant',
+    version: 2,
+    temperature: 0.3,
+    render: ({ contractContext, language }) => `
+    You are LegalLens AI, a helpful legal assistant specialized in contract analysis.
+    Reply in ${language} unless the user writes to you in another language.
+    When quoting the contract, copy its words exactly as written, without translating them.
+    
+    ${contractContext ? `
+    CURRENT CONTRACT CONTEXT:
+    ${contractContext}
+    
+    INSTRUCTIONS:
+    1. **Cite Contract Sections:** You MAY reference specific section numbers found within the document itself (e.g., "Clause 4.1 of this agreement").
+    2. **NO External Statutes:** Do NOT cite specific section numbers of external laws, acts, or codes (e.g., do NOT say "Section 23 of the Contract Act"). Use "general contract law principles" instead.
+    3. **Simple Language:** Explain concepts simply.
+    4. **Disclaimer:** Always conclude serious risk assessments with a recommendation to consult a qualified attorney.
+    ` : `
+    INSTRUCTIONS:
+    - You are currently not viewing a specific contract.
+    - Answer general legal questions or guide the user on how to use the app.
+    - Remind the user they can upload a contract for specific analysis.
+    `}
+  `,
+  } satisfies PromptDefinition<{ contractContext: string; language: string }>,
+
+  contractComparison: {
+    id: 'contract-comparison',
+    version: 2,
+    responseSchema: comparisonSchema,
+    render: ({ contractCount, contractsContext, language }) => `
+        Compare these ${contractCount} contracts based on the provided analysis data.
+        
+        ${contractsContext}
+        
+        Task:
+        1. Determine which contract is safest/best for the user.
+        2. Provide a short reasoning paragraph.
+        3. List key differences.
+
+        ${languageRule(language, 'document names and any contract wording you quote')}
+        
+        Return JSON matching the schema.
+      `,
+  } satisfies PromptDefinition<{ contractCount: number; contractsContext: string; language: string }>,
+
+  // System instruction for follow-up questions on one comparison difference
+  comparisonDifference: {
+    id: 'comparison-difference',
+    version: 2,
+    render: ({ contractsContext, focusedDifference, language }) => `
+    You are an expert legal aide assisting a user who is comparing multiple contracts.
+    
+    CONTEXT OF CONTRACTS:
+    ${contractsContext}
+    
+    FOCUS TOPIC:
+    The user is specifically asking about this identified difference: "${focusedDifference}"
+    
+    INSTRUCTIONS:
+    - Explain simply how this difference manifests.
+    - Do NOT cite external law sections.
+    - ${languageRule(language, 'any contract wording you quote')}
+    `,
+  } satisfies PromptDefinition<{ contractsContext: string; focusedDifference: string; language: string }>,
+};
@@ -0,0 +1,163 @@
+import type { TokenUsage } from "../types";
+import type { AIConfig, ModelRole } from "./aiConfig";
+import type { AIProvider, GenerateRequest } from "./aiProvider";
+import { AIErrorKind, TransientError, createAIError } from "./aiErrors";
+
+// Browser side of the local proxy server (server/). Each task is POSTed to its own
+// route, e.g. /api/analyze; the server holds the API key and talks to the real backend.
+
+// Request body of every proxy route: the generate request minus what cannot be serialized.
+export type ProxyRequestBody = Omit<GenerateRequest, 'task' | 'abortSignal' | 'onSent'> & { stream?: boolean };
+
+export interface ProxyErrorBody {
+  error: { kind: AIErrorKind; message: string };
+}
+
+export interface ProxyHealth {
+  provider: string;
+  configured: boolean;
+  models: Record<ModelRole, string>;
+}
+
+// Stream events are "data: {"text": ...}" lines, an "event: error" on failure and "data: [DONE]" at the end.
+// Token usage, when known, arrives in the last data line before [DONE].
+export interface ProxyStreamChunk {
+  text?: string;
+  usage?: TokenUsage;
+  kind?: AIErrorKind;
+  message?: string;
+}
+
+const readError = async (response: Response) => {
+  const body = await response.json().catch(() => null) as ProxyErrorBody | null;
+  if (body?.error?.kind) {
+    return createAIError(body.error.kind, body.error.message);
+  }
+  // Not one of ours, e.g. the Vite dev server answering because the proxy is not running
+  return Object.assign(new Error(`${response.status} ${response.statusText}`), { status: response.status });
+};
+
+// fetch cannot tell when a request body has finished uploading, XMLHttpRequest can.
+// The answer is wrapped in a Response so it is read the same way as a fetch.
+const postWithUploadEvent = (url: string, body: string, signal: AbortSignal | undefined, onSent: () => void) =>
+  new Promise<Response>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.upload.onload = () => onSent();
+    xhr.onload = () => resolve(new Response(xhr.responseText, { status: xhr.status, statusText: xhr.statusText }));
+    xhr.onerror = () => reject(new TypeError("Network request failed"));
+    xhr.onabort = () => reject(signal?.reason ?? new DOMException("The operation was aborted.", 'AbortError'));
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(body);
+  });
+
+export const createProxyProvider = (config: AIConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  let health: Promise<ProxyHealth> | null = null;
+
+  const getHealth = () => {
+    if (!health) {
+      health = fetch(`${baseUrl}/health`)
+        .then(response => {
+          if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+          return response.json() as Promise<ProxyHealth>;
+        })
+        .catch(error => {
+          health = null; // Ask again next time, the server may just not be up yet
+          throw error;
+        });
+    }
+    return health;
+  };
+
+  const post = async (request: GenerateRequest, stream: boolean) => {
+    const { task, abortSignal, onSent, ...rest } = request;
+    const body: ProxyRequestBody = { ...rest, stream };
+
+    let response: Response;
+    try {
+      response = onSent && !stream
+        ? await postWithUploadEvent(`${baseUrl}/${task}`, JSON.stringify(body), abortSignal, onSent)
+        : await fetch(`${baseUrl}/${task}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal: abortSignal,
+          });
+    } catch (error) {
+      if (abortSignal?.aborted) throw error;
+      throw new TransientError("Could not reach the AI proxy server. Make sure it is running (npm run server).", error);
+    }
+
+    if (!response.ok) throw await readError(response);
+    return response;
+  };
+
+  return {
+    name: 'proxy',
+
+    // The key lives on the server; a missing key comes back as an auth error
+    isConfigured: () => Boolean(baseUrl),
+
+    modelFor: (role) => config.models[role],
+
+    resolveModel: async (role) => {
+      try {
+        return (await getHealth()).models[role];
+      } catch (error) {
+        console.warn("Could not ask the AI proxy for its models", error);
+        return config.models[role];
+      }
+    },
+
+    generate: async (request: GenerateRequest) => {
+      const response = await post(request, false);
+      const data = await response.json() as { text?: string; model?: string; usage?: TokenUsage };
+      return { text: data.text, model: data.model || config.models[request.modelRole], usage: data.usage };
+    },
+
+    generateStream: async function* (request: GenerateRequest) {
+      const response = await post(request, true);
+      if (!response.body) {
+        throw new Error("Streaming is not supported by this browser.");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let event = 'message';
+      let usage: TokenUsage | undefined;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.startsWith('event:')) {
+            event = line.slice('event:'.length).trim();
+            continue;
+          }
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload) continue;
+          if (payload === '[DONE]') return usage;
+
+          const data = JSON.parse(payload) as ProxyStreamChunk;
+          if (event === 'error') {
+            throw createAIError(data.kind || 'unknown', data.message);
+          }
+          if (data.text) yield data.text;
+          if (data.usage) usage = data.usage;
+        }
+      }
+
+      // The server always ends with [DONE]; anything else means the connection dropped
+      throw new TransientError("The connection to the AI proxy was interrupted.");
+    },
+  };
+};
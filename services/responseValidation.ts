@@ -0,0 +1,240 @@
+import { Clause, ClauseRewrite, ComparisonResult, Contract, ContractAnalysis, RiskLevel } from "../types";
+import { ParseError } from "./aiErrors";
+import { inferRiskCategory, normalizeRiskCategory } from "./riskCategories";
+import { normalizeKeyFacts } from "./keyFacts";
+import { normalizeContractType } from "./contractTypes";
+
+// Runtime checks for model output. Anything that can be fixed safely is
+// normalized in place; everything else is reported as a field violation.
+
+export interface FieldViolation {
+  field: string; // Path into the response, e.g. "clauses[2].riskLevel"
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value?: T; // Only set when there are no violations left
+  violations: FieldViolation[];
+}
+
+export class AIValidationError extends ParseError {
+  readonly violations: FieldViolation[];
+
+  constructor(violations: FieldViolation[]) {
+    super(`The AI response failed validation: ${violations.map(v => `${v.field} ${v.message}`).join('; ')}`);
+    this.name = 'AIValidationError';
+    this.violations = violations;
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const RISK_LEVELS = Object.values(RiskLevel) as string[];
+
+// Accepts "high", "HIGH", "High Risk" and so on
+export const normalizeRiskLevel = (value: unknown): RiskLevel | null => {
+  if (typeof value !== 'string') return null;
+  const word = value.trim().split(/\s+/)[0]?.toLowerCase();
+  const match = RISK_LEVELS.find(level => level.toLowerCase() === word);
+  return (match as RiskLevel) || null;
+};
+
+// Score bands from the analysis prompt: High >70, Medium 40-70, Low <40.
+const SCORE_BANDS: Record<RiskLevel, [number, number]> = {
+  [RiskLevel.LOW]: [0, 39],
+  [RiskLevel.MEDIUM]: [40, 70],
+  [RiskLevel.HIGH]: [71, 100],
+};
+
+const toScore = (value: unknown): number | null => {
+  const score = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof score === 'number' && Number.isFinite(score) ? score : null;
+};
+
+// Models sometimes answer in percent
+const toConfidence = (value: unknown): number | undefined => {
+  let confidence = toScore(value);
+  if (confidence === null || confidence < 0) return undefined;
+  if (confidence > 1) confidence /= 100;
+  return Math.min(1, Math.round(confidence * 100) / 100);
+};
+
+const toKeywords = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split(',').map(k => k.trim()).filter(Boolean);
+  if (!Array.isArray(value)) return [];
+  return value.filter(isNonEmptyString).map(k => k.trim());
+};
+
+const validateClause = (
+  raw: unknown,
+  index: number,
+  usedIds: Set<string>,
+  violations: FieldViolation[]
+): Clause | null => {
+  const path = `clauses[${index}]`;
+  if (!isObject(raw)) {
+    violations.push({ field: path, message: 'must be an object' });
+    return null;
+  }
+
+  const riskLevel = normalizeRiskLevel(raw.riskLevel);
+  if (!riskLevel) violations.push({ field: `${path}.riskLevel`, message: `must be one of ${RISK_LEVELS.join(', ')}` });
+  if (!isNonEmptyString(raw.text)) violations.push({ field: `${path}.text`, message: 'is required' });
+  if (typeof raw.explanation !== 'string') violations.push({ field: `${path}.explanation`, message: 'is required' });
+  if (typeof raw.reason !== 'string') violations.push({ field: `${path}.reason`, message: 'is required' });
+
+  // Missing or repeated IDs are replaced with the next free "clause-N"
+  let id = isNonEmptyString(raw.id) ? raw.id.trim() : '';
+  if (!id || usedIds.has(id)) {
+    let n = index + 1;
+    while (usedIds.has(`clause-${n}`)) n++;
+    id = `clause-${n}`;
+  }
+  usedIds.add(id);
+
+  if (!riskLevel || !isNonEmptyString(raw.text)) return null;
+
+  return {
+    ...(raw as Partial<Clause>),
+    id,
+    text: raw.text,
+    explanation: String(raw.explanation ?? ''),
+    riskLevel,
+    category: normalizeRiskCategory(raw.category) || inferRiskCategory(String(raw.reason ?? '')),
+    riskyKeywords: toKeywords(raw.riskyKeywords),
+    reason: String(raw.reason ?? ''),
+    confidence: toConfidence(raw.confidence),
+  };
+};
+
+export const validateContractAnalysis = (raw: unknown): ValidationResult<ContractAnalysis> => {
+  const violations: FieldViolation[] = [];
+  if (!isObject(raw)) {
+    return { violations: [{ field: '$', message: 'must be a JSON object' }] };
+  }
+
+  if (!isNonEmptyString(raw.summary)) violations.push({ field: 'summary', message: 'is required' });
+
+  const overallRisk = normalizeRiskLevel(raw.overallRisk);
+  if (!overallRisk) violations.push({ field: 'overallRisk', message: `must be one of ${RISK_LEVELS.join(', ')}` });
+
+  let riskScore = toScore(raw.riskScore);
+  if (riskScore === null) {
+    violations.push({ field: 'riskScore', message: 'must be a number from 0 to 100' });
+  } else {
+    riskScore = Math.round(Math.min(100, Math.max(0, riskScore)));
+    // Keep the score inside the band of the stated rating
+    if (overallRisk) {
+      const [min, max] = SCORE_BANDS[overallRisk];
+      riskScore = Math.min(max, Math.max(min, riskScore));
+    }
+  }
+
+  let clauses: Clause[] = [];
+  if (!Array.isArray(raw.clauses)) {
+    violations.push({ field: 'clauses', message: 'must be an array' });
+  } else {
+    const usedIds = new Set<string>();
+    clauses = raw.clauses
+      .map((clause, index) => validateClause(clause, index, usedIds, violations))
+      .filter((clause): clause is Clause => clause !== null);
+  }
+
+  if (raw.fullText !== undefined && typeof raw.fullText !== 'string') {
+    violations.push({ field: 'fullText', message: 'must be a string' });
+  }
+
+  if (violations.length > 0 || !overallRisk || riskScore === null) {
+    return { violations };
+  }
+
+  return {
+    value: {
+      ...(raw as Partial<ContractAnalysis>),
+      summary: raw.summary as string,
+      overallRisk,
+      riskScore,
+      clauses,
+      fullText: raw.fullText as string | undefined,
+      keyFacts: normalizeKeyFacts(raw.keyFacts),
+      confidence: toConfidence(raw.confidence),
+      contractType: normalizeContractType(raw.contractType) || undefined,
+      sourceLanguage: typeof raw.sourceLanguage === 'string' && /^[a-z]{2}$/i.test(raw.sourceLanguage.trim())
+        ? raw.sourceLanguage.trim().toLowerCase()
+        : undefined,
+    },
+    violations: [],
+  };
+};
+
+export const validateComparisonResult = (
+  raw: unknown,
+  contracts: Contract[]
+): ValidationResult<ComparisonResult> => {
+  const violations: FieldViolation[] = [];
+  if (!isObject(raw)) {
+    return { violations: [{ field: '$', message: 'must be a JSON object' }] };
+  }
+
+  // Models sometimes answer with the file name instead of the ID
+  const candidate = typeof raw.recommendedId === 'string' ? raw.recommendedId.trim() : '';
+  const recommended = contracts.find(c => c.id === candidate)
+    || contracts.find(c => c.fileName.toLowerCase() === candidate.toLowerCase());
+  if (!recommended) {
+    violations.push({
+      field: 'recommendedId',
+      message: `must be one of the compared contract IDs (${contracts.map(c => c.id).join(', ')})`,
+    });
+  }
+
+  if (!isNonEmptyString(raw.reasoning)) violations.push({ field: 'reasoning', message: 'is required' });
+
+  const keyDifferences = typeof raw.keyDifferences === 'string'
+    ? [raw.keyDifferences]
+    : Array.isArray(raw.keyDifferences) ? raw.keyDifferences.filter(isNonEmptyString) : null;
+  if (!keyDifferences) violations.push({ field: 'keyDifferences', message: 'must be an array of strings' });
+
+  if (violations.length > 0 || !recommended || !keyDifferences) {
+    return { violations };
+  }
+
+  return {
+    value: {
+      ...(raw as Partial<ComparisonResult>),
+      recommendedId: recommended.id,
+      reasoning: raw.reasoning as string,
+      keyDifferences,
+    },
+    violations: [],
+  };
+};
+
+// The suggestion before the user has acted on it; status and provenance are added by the caller
+export type RewriteSuggestion = Pick<ClauseRewrite, 'text' | 'rationale' | 'fallback'>;
+
+export const validateClauseRewrite = (raw: unknown): ValidationResult<RewriteSuggestion> => {
+  if (!isObject(raw)) {
+    return { violations: [{ field: '$', message: 'must be a JSON object' }] };
+  }
+
+  const violations: FieldViolation[] = [];
+  (['text', 'rationale', 'fallback'] as const).forEach(field => {
+    if (!isNonEmptyString(raw[field])) violations.push({ field, message: 'is required' });
+  });
+  if (violations.length > 0) return { violations };
+
+  return {
+    value: {
+      text: (raw.text as string).trim(),
+      rationale: (raw.rationale as string).trim(),
+      fallback: (raw.fallback as string).trim(),
+    },
+    violations: [],
+  };
+};
@@ -0,0 +1,99 @@
+import { Clause, ClauseReview, Contract, RiskLevel } from "../types";
+import { storageService } from "./storageService";
+import { playbookRiskLevel } from "./playbook";
+import { computeRiskScore, overallRiskFor } from "./ruleBasedAnalyzer";
+import { applyChecklist } from "./checklists";
+
+// Clauses a person should look at before the analysis is relied on: those the model was unsure
+// about and those with the most at stake. Reviewing a clause takes it out of the queue.
+
+export const LOW_CONFIDENCE = 0.6;
+
+export type ReviewReason = 'low-confidence' | 'high-impact';
+
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  'low-confidence': 'Low confidence',
+  'high-impact': 'High impact',
+};
+
+export interface ReviewItem {
+  contract: Contract;
+  clause: Clause;
+  reasons: ReviewReason[];
+  confidence?: number;
+}
+
+// A clause can't be more certain than the analysis it came from (a poor scan affects every clause)
+export const clauseConfidence = (clause: Clause, analysisConfidence?: number): number | undefined =>
+  clause.confidence === undefined && analysisConfidence === undefined
+    ? undefined
+    : Math.min(clause.confidence ?? 1, analysisConfidence ?? 1);
+
+export const reviewReasons = (clause: Clause, analysisConfidence?: number): ReviewReason[] => {
+  const reasons: ReviewReason[] = [];
+  const confidence = clauseConfidence(clause, analysisConfidence);
+  if (confidence !== undefined && confidence < LOW_CONFIDENCE) reasons.push('low-confidence');
+  const level = clause.review?.originalRiskLevel || clause.riskLevel;
+  if (level === RiskLevel.HIGH || playbookRiskLevel(clause) === RiskLevel.HIGH) reasons.push('high-impact');
+  return reasons;
+};
+
+export const needsReview = (clause: Clause, analysisConfidence?: number): boolean =>
+  !clause.review && reviewReasons(clause, analysisConfidence).length > 0;
+
+// Unreviewed flagged clauses across the library: high impact first, then the least certain
+export const reviewQueue = (contracts: Contract[]): ReviewItem[] =>
+  contracts
+    .flatMap(contract => (contract.analysis?.clauses || [])
+      .filter(clause => needsReview(clause, contract.analysis?.confidence))
+      .map(clause => ({
+        contract,
+        clause,
+        reasons: reviewReasons(clause, contract.analysis?.confidence),
+        confidence: clauseConfidence(clause, contract.analysis?.confidence),
+      })))
+    .sort((a, b) =>
+      Number(b.reasons.includes('high-impact')) - Number(a.reasons.includes('high-impact'))
+      || (a.confidence ?? 1) - (b.confidence ?? 1)
+      || b.contract.uploadDate - a.contract.uploadDate);
+
+const currentReviewer = () => storageService.getCurrentUser()?.name || 'Unknown reviewer';
+
+// A correction replaces the clause's risk level; the model's original rating stays on the review
+export const reviewClause = (clause: Clause, status: ClauseReview['status'], correctedLevel?: RiskLevel, note?: string): Clause => {
+  const originalRiskLevel = clause.review?.originalRiskLevel || clause.riskLevel;
+  const corrected = status === 'corrected' && correctedLevel !== undefined;
+  return {
+    ...clause,
+    riskLevel: corrected ? correctedLevel : originalRiskLevel,
+    review: {
+      status,
+      reviewer: currentReviewer(),
+      reviewedAt: Date.now(),
+      ...(corrected ? { originalRiskLevel } : {}),
+      ...(note?.trim() ? { note: note.trim() } : {}),
+    },
+  };
+};
+
+// Puts the clause back in the queue with the model's rating
+export const undoReview = (clause: Clause): Clause => {
+  const { review, ...rest } = clause;
+  return { ...rest, riskLevel: review?.originalRiskLevel || clause.riskLevel };
+};
+
+// While any clause carries a correction, the overall rating is scored from the reviewed clauses
+// (plus missing protections). Undoing the last correction brings back the model's rating.
+export const updateClause = (contract: Contract, clause: Clause): Contract => {
+  const analysis = contract.analysis;
+  if (!analysis) return contract;
+  const clauses = analysis.clauses.map(c => (c.id === clause.id ? clause : c));
+  const modelRating = analysis.modelRating || { overallRisk: analysis.overallRisk, riskScore: analysis.riskScore };
+  const corrected = clauses.some(c => c.review?.originalRiskLevel !== undefined);
+  return {
+    ...contract,
+    analysis: corrected
+      ? applyChecklist({ ...analysis, clauses, overallRisk: overallRiskFor(clauses), riskScore: computeRiskScore(clauses), modelRating })
+      : { ...analysis, clauses, ...modelRating, modelRating: undefined },
+  };
+};
@@ -0,0 +1,39 @@
+import { Clause, RiskCategory } from "../types";
+
+export const RISK_CATEGORIES = Object.values(RiskCategory) as RiskCategory[];
+
+// Words that identify a category in free text, such as the old "Payment Risk: ..." reason prefix
+const CATEGORY_KEYWORDS: [RiskCategory, RegExp][] = [
+  [RiskCategory.INDEMNIFICATION, /indemn/i],
+  [RiskCategory.LIABILITY, /liabilit|damages/i],
+  [RiskCategory.TERMINATION, /terminat|cancel/i],
+  [RiskCategory.RENEWAL, /renew/i],
+  [RiskCategory.WAIVER_OF_RIGHTS, /waive|jury|class action/i],
+  [RiskCategory.NOTICE_PERIOD, /notice/i],
+  [RiskCategory.DATA_PRIVACY, /privacy|personal data|data protection/i],
+  [RiskCategory.CONFIDENTIALITY, /confidential|non-disclosure|nda/i],
+  [RiskCategory.INTELLECTUAL_PROPERTY, /intellectual property|copyright|trademark|patent|\bip\b/i],
+  [RiskCategory.DISPUTE_RESOLUTION, /dispute|arbitrat|governing law|jurisdiction/i],
+  [RiskCategory.PAYMENT, /payment|pric|fee|invoice|late charge/i],
+  [RiskCategory.AMBIGUITY, /ambigu|vague|unclear/i],
+];
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+risks?$/, '').replace(/[^a-z]+/g, ' ').trim();
+
+// Accepts the exact enum values plus small variations like "payment risk" or "data-privacy"
+export const normalizeRiskCategory = (value: unknown): RiskCategory | null => {
+  if (typeof value !== 'string') return null;
+  const wanted = normalize(value);
+  return RISK_CATEGORIES.find(category => normalize(category) === wanted) || null;
+};
+
+// Best guess from a clause's reason text, for models that skip the field and for older analyses
+export const inferRiskCategory = (reason: string): RiskCategory => {
+  const prefix = reason.split(':')[0];
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(prefix))
+    || CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(reason));
+  return match ? match[0] : RiskCategory.OTHER;
+};
+
+export const clauseCategory = (clause: Clause): RiskCategory =>
+  clause.category || inferRiskCategory(clause.reason);
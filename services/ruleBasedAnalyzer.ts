@@ -0,0 +1,312 @@
+import { Clause, ContractAnalysis, ContractType, RiskCategory, RiskLevel, RuleBaseline } from "../types";
+import { anchorClauses } from "./clauseAnchors";
+import { applyChecklist } from "./checklists";
+import { CONTRACT_RUBRICS, detectContractType } from "./contractTypes";
+import { DEFAULT_LANGUAGE, detectLanguage } from "./languages";
+
+// Deterministic keyword/regex analyzer that mirrors the HIGH/MEDIUM/LOW criteria
+// from the AI analysis prompt. Used when no AI provider is available, and as a
+// sanity baseline stored next to AI results.
+
+interface RiskRule {
+  id: string;
+  riskLevel: RiskLevel;
+  riskType: string;
+  category: RiskCategory;
+  patterns: RegExp[];
+  explanation: string;
+  reason: string; // Shown after riskType, following the AI's 'reason' convention
+  // Extra check on a match, e.g. to only flag notice periods above the threshold for the contract type.
+  accept?: (match: RegExpMatchArray, contractType: ContractType) => boolean;
+}
+
+const noticeDays = (match: RegExpMatchArray): number => {
+  const amount = parseInt(match[1], 10);
+  const unit = match[2].toLowerCase();
+  if (unit.startsWith('month')) return amount * 30;
+  if (unit.startsWith('week')) return amount * 7;
+  if (unit.startsWith('year')) return amount * 365;
+  return amount;
+};
+
+const RULES: RiskRule[] = [
+  // HIGH RISK
+  {
+    id: 'unlimited-liability',
+    riskLevel: RiskLevel.HIGH,
+    riskType: 'Liability Risk',
+    category: RiskCategory.LIABILITY,
+    patterns: [
+      /unlimited liability/gi,
+      /without (any )?limit(ation)? (of|on|to) (its |your |their )?liability/gi,
+      /liability[^.]{0,60}shall not be limited/gi,
+      /fully liable for (any and )?all/gi,
+    ],
+    explanation: 'You could be responsible for losses with no upper limit. Consider asking a lawyer about adding a cap.',
+    reason: 'The clause does not limit how much you may have to pay if something goes wrong.',
+  },
+  {
+    id: 'unilateral-termination',
+    riskLevel: RiskLevel.HIGH,
+    riskType: 'Termination Risk',
+    category: RiskCategory.TERMINATION,
+    patterns: [
+      /terminate[^.]{0,80}(without cause|for any reason|for convenience|at (its|our) sole discretion)/gi,
+      /(may|can) terminate[^.]{0,40}at any time/gi,
+    ],
+    explanation: 'The other side can end this agreement whenever it wants, even if you did nothing wrong. A lawyer can tell you how this affects you.',
+    reason: 'One party can end the agreement without cause.',
+  },
+  {
+    id: 'rights-waiver',
+    riskLevel: RiskLevel.HIGH,
+    riskType: 'Waiver of Rights Risk',
+    category: RiskCategory.WAIVER_OF_RIGHTS,
+    patterns: [
+      /waive[sd]?[^.]{0,60}(jury|trial by jury)/gi,
+      /jury (trial )?waiver/gi,
+      /class[- ]action/gi,
+      /binding arbitration/gi,
+    ],
+    explanation: 'You give up the right to take disputes to a jury or join a group lawsuit. Check with a lawyer before accepting this.',
+    reason: 'The clause removes the right to a jury trial or class action.',
+  },
+  {
+    id: 'auto-renewal',
+    riskLevel: RiskLevel.HIGH,
+    riskType: 'Renewal Risk',
+    category: RiskCategory.RENEWAL,
+    patterns: [
+      /automatic(ally)? renew/gi,
+      /auto-?renew(al|s)?/gi,
+      /renew(s|ed)? automatically/gi,
+      /successive (renewal )?(terms|periods)/gi,
+    ],
+    explanation: 'The agreement keeps renewing unless you cancel in time. Mark the cancellation deadline and ask a lawyer if unsure.',
+    reason: 'The contract renews automatically and may be hard to cancel.',
+  },
+
+  // MEDIUM RISK
+  {
+    id: 'one-sided-indemnity',
+    riskLevel: RiskLevel.MEDIUM,
+    riskType: 'Indemnification Risk',
+    category: RiskCategory.INDEMNIFICATION,
+    patterns: [
+      /indemnif(y|ies|ied|ication)/gi,
+      /hold harmless/gi,
+      /defend[^.]{0,30}against (any and all )?claims/gi,
+    ],
+    explanation: 'You may have to cover the other side\'s costs if someone makes a claim. Check whether this works both ways.',
+    reason: 'The clause may make you pay for claims against the other party.',
+  },
+  {
+    id: 'long-notice',
+    riskLevel: RiskLevel.MEDIUM,
+    riskType: 'Notice Period Risk',
+    category: RiskCategory.NOTICE_PERIOD,
+    patterns: [
+      /(\d{1,3})\s*\(?[a-z-]*\)?\s*(days?|weeks?|months?|years?)['’]?\s+(prior\s+)?(written\s+)?notice/gi,
+    ],
+    accept: (match, contractType) => noticeDays(match) > CONTRACT_RUBRICS[contractType].longNoticeDays,
+    explanation: 'You must give notice a long time in advance. Plan ahead so you do not miss the deadline.',
+    reason: 'The notice period is longer than usual for this type of contract.',
+  },
+  {
+    id: 'ambiguous-terms',
+    riskLevel: RiskLevel.MEDIUM,
+    riskType: 'Ambiguity Risk',
+    category: RiskCategory.AMBIGUITY,
+    patterns: [
+      /(sole|absolute) discretion/gi,
+      /from time to time/gi,
+      /(commercially )?reasonable efforts/gi,
+      /as (it|we|they) (may )?deems? (appropriate|necessary|fit)/gi,
+      /including,? but not limited to/gi,
+    ],
+    explanation: 'Some words here are vague and could be read in different ways. Ask for clearer terms if this matters to you.',
+    reason: 'The wording leaves room for one side to decide what it means.',
+  },
+
+  // LOW RISK
+  {
+    id: 'mutual-obligations',
+    riskLevel: RiskLevel.LOW,
+    riskType: 'Mutual Obligation',
+    category: RiskCategory.OTHER,
+    patterns: [
+      /mutual(ly)?/gi,
+      /each party/gi,
+      /both parties/gi,
+    ],
+    explanation: 'Both sides have the same duty here, which is generally balanced.',
+    reason: 'The clause applies equally to both parties.',
+  },
+  {
+    id: 'clear-pricing',
+    riskLevel: RiskLevel.LOW,
+    riskType: 'Payment Terms',
+    category: RiskCategory.PAYMENT,
+    patterns: [
+      /(\$|€|£|usd|eur|gbp)\s?\d[\d,]*(\.\d+)?/gi,
+      /\d[\d,]*(\.\d+)?\s?(dollars|euros|pounds)/gi,
+    ],
+    explanation: 'The clause states a specific amount, so you know what you will pay.',
+    reason: 'Pricing is stated clearly.',
+  },
+];
+
+const LEGAL_MARKERS = /\b(agreement|contract|part(y|ies)|hereby|shall|terms and conditions|obligations?|liabilit(y|ies)|terminat(e|ion)|governing law)\b/gi;
+
+// Keyword matches can't see context, so offline findings are never treated as certain
+const RULE_CONFIDENCE = 0.5;
+
+const RISK_ORDER: Record<RiskLevel, number> = {
+  [RiskLevel.LOW]: 0,
+  [RiskLevel.MEDIUM]: 1,
+  [RiskLevel.HIGH]: 2,
+};
+
+const HEADING_PATTERN = /\n(?=\s*(?:\d+(?:\.\d+)*[.)]\s|section\s+\d+|article\s+[ivx\d]+|clause\s+\d+))/i;
+
+// Split on blank lines first, then on numbered headings, then fall back to sentence groups.
+export const splitIntoClauses = (text: string): string[] => {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  if (!normalized) return [];
+
+  let segments = normalized.split(/\n\s*\n/);
+  if (segments.length <= 1) {
+    segments = normalized.split(HEADING_PATTERN);
+  }
+  if (segments.length <= 1) {
+    const sentences = normalized.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) || [normalized];
+    segments = [];
+    for (let i = 0; i < sentences.length; i += 3) {
+      segments.push(sentences.slice(i, i + 3).join(''));
+    }
+  }
+
+  return segments
+    .map(segment => segment.replace(/\s+/g, ' ').trim())
+    .filter(segment => segment.length >= 20);
+};
+
+interface RuleHit {
+  rule: RiskRule;
+  keywords: string[];
+}
+
+const evaluateRules = (clauseText: string, contractType: ContractType): RuleHit[] => {
+  const hits: RuleHit[] = [];
+
+  RULES.forEach(rule => {
+    const keywords: string[] = [];
+    rule.patterns.forEach(pattern => {
+      for (const match of clauseText.matchAll(pattern)) {
+        if (rule.accept && !rule.accept(match, contractType)) continue;
+        keywords.push(match[0].trim());
+      }
+    });
+    if (keywords.length > 0) {
+      hits.push({ rule, keywords: Array.from(new Set(keywords)) });
+    }
+  });
+
+  return hits.sort((a, b) => RISK_ORDER[b.rule.riskLevel] - RISK_ORDER[a.rule.riskLevel]);
+};
+
+// Also used to score the merged clauses of a document analyzed in sections
+export const computeRiskScore = (clauses: Clause[]): number => {
+  const high = clauses.filter(c => c.riskLevel === RiskLevel.HIGH).length;
+  const medium = clauses.filter(c => c.riskLevel === RiskLevel.MEDIUM).length;
+  const low = clauses.filter(c => c.riskLevel === RiskLevel.LOW).length;
+
+  // Keep scores inside the same bands the AI prompt asks for: High >70, Medium 40-70, Low <40.
+  if (high > 0) return Math.min(100, 71 + (high - 1) * 8 + medium * 3);
+  if (medium > 0) return Math.min(70, 40 + (medium - 1) * 6 + low);
+  if (low > 0) return Math.min(39, 10 + low * 3);
+  return 5;
+};
+
+export const overallRiskFor = (clauses: Clause[]): RiskLevel => {
+  if (clauses.some(c => c.riskLevel === RiskLevel.HIGH)) return RiskLevel.HIGH;
+  if (clauses.some(c => c.riskLevel === RiskLevel.MEDIUM)) return RiskLevel.MEDIUM;
+  return RiskLevel.LOW;
+};
+
+const buildSummary = (clauses: Clause[], totalSegments: number): string => {
+  const high = clauses.filter(c => c.riskLevel === RiskLevel.HIGH);
+  const medium = clauses.filter(c => c.riskLevel === RiskLevel.MEDIUM);
+  const low = clauses.filter(c => c.riskLevel === RiskLevel.LOW);
+
+  const concerns = Array.from(new Set([...high, ...medium].map(c => c.reason.split(':')[0])));
+
+  return [
+    `Offline rule-based review of ${totalSegments} sections: ${high.length} high, ${medium.length} medium and ${low.length} low risk findings.`,
+    concerns.length > 0 ? `Main concerns: ${concerns.join(', ')}.` : 'No common high or medium risk patterns were found.',
+    'This is an automated keyword check, not an AI review. For specific legal interpretations, consult a lawyer.',
+  ].join(' ');
+};
+
+export const analyzeTextWithRules = (text: string): ContractAnalysis => {
+  const legalMarkers = (text.match(LEGAL_MARKERS) || []).length;
+
+  if (legalMarkers < 2) {
+    return {
+      summary: "This document does not appear to contain any legal terms or binding obligations.",
+      overallRisk: RiskLevel.LOW,
+      riskScore: 0,
+      clauses: [],
+      fullText: text,
+      sourceLanguage: detectLanguage(text),
+      outputLanguage: DEFAULT_LANGUAGE,
+      source: 'rules',
+    };
+  }
+
+  const contractType = detectContractType(text);
+  const segments = splitIntoClauses(text);
+  const clauses: Clause[] = [];
+
+  segments.forEach(segment => {
+    const hits = evaluateRules(segment, contractType);
+    if (hits.length === 0) return;
+
+    const primary = hits[0].rule;
+    const keywords = hits
+      .filter(hit => hit.rule.riskLevel === primary.riskLevel)
+      .flatMap(hit => hit.keywords);
+
+    clauses.push({
+      id: `clause-${clauses.length + 1}`,
+      text: segment,
+      explanation: primary.explanation,
+      riskLevel: primary.riskLevel,
+      category: primary.category,
+      riskyKeywords: Array.from(new Set(keywords)),
+      reason: `${primary.riskType}: ${primary.reason}`,
+      confidence: RULE_CONFIDENCE,
+    });
+  });
+
+  return applyChecklist({
+    summary: buildSummary(clauses, segments.length),
+    overallRisk: overallRiskFor(clauses),
+    riskScore: computeRiskScore(clauses),
+    clauses: anchorClauses(clauses, text),
+    fullText: text,
+    contractType,
+    sourceLanguage: detectLanguage(text),
+    outputLanguage: DEFAULT_LANGUAGE, // The rule explanations are only written in English
+    source: 'rules',
+  });
+};
+
+export const buildRuleBaseline = (text: string): RuleBaseline => {
+  const result = analyzeTextWithRules(text);
+  return {
+    overallRisk: result.overallRisk,
+    riskScore: result.riskScore || 0,
+    flaggedClauses: result.clauses.filter(c => c.riskLevel !== RiskLevel.LOW).length,
+  };
+};
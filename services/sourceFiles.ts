@@ -0,0 +1,34 @@
+import { STORES, runInStore } from "./browserDb";
+
+// Photos are shrunk and re-encoded when combined into one PDF. The files as uploaded are kept
+// here so each page can still be downloaded in its original form.
+
+export const sourceFileId = (contractId: string, pageIndex: number) => `${contractId}/${pageIndex}`;
+
+// False when the file could not be stored; the page then falls back to its copy in the PDF
+export const saveSourceFile = async (id: string, file: Blob): Promise<boolean> => {
+  try {
+    await runInStore(STORES.SOURCE_FILES, 'readwrite', store => store.put(file, id));
+    return true;
+  } catch (e) {
+    console.error("Failed to save original file", e);
+    return false;
+  }
+};
+
+export const deleteSourceFile = async (id: string) => {
+  try {
+    await runInStore(STORES.SOURCE_FILES, 'readwrite', store => store.delete(id));
+  } catch (e) {
+    console.error("Failed to delete original file", e);
+  }
+};
+
+export const getSourceFile = async (id: string): Promise<Blob | null> => {
+  try {
+    return (await runInStore<Blob | undefined>(STORES.SOURCE_FILES, 'readonly', store => store.get(id))) || null;
+  } catch (e) {
+    console.error("Failed to load original file", e);
+    return null;
+  }
+};
@@ -1,12 +1,23 @@
-import { Contract, User, RecentAnalysis } from '../types';
+import { Contract, User, RecentAnalysis, AnalysisCacheEntry, UsageRecord, UsageSettings, PlaybookRule, UploadQueueSettings } from '../types';
 
 const STORAGE_KEYS = {
   USERS: 'legallens_users',
   CONTRACTS: 'legallens_contracts',
   CURRENT_USER: 'legallens_current_user',
   RECENT_ANALYSES: 'legallens_recent_analyses',
+  ANALYSIS_CACHE: 'legallens_analysis_cache',
+  USAGE: 'legallens_usage',
+  USAGE_SETTINGS: 'legallens_usage_settings',
+  PLAYBOOKS: 'legallens_playbooks',
+  UPLOAD_QUEUE: 'legallens_upload_queue',
 };
 
+// Enough for a few months of heavy use; the oldest records are dropped first
+const MAX_USAGE_RECORDS = 5000;
+
+// Cached analyses include the full document text, so only the most recent few are kept
+const MAX_CACHED_ANALYSES = 20;
+
 // Helper to simulate network delay
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -119,5 +130,130 @@ export const storageService = {
     } catch (e) {
       console.error("Failed to clear recent analyses", e);
     }
+  },
+
+  getAnalysisCache: (): AnalysisCacheEntry[] => {
+    try {
+      const cacheRaw = localStorage.getItem(STORAGE_KEYS.ANALYSIS_CACHE);
+      return cacheRaw ? JSON.parse(cacheRaw) : [];
+    } catch (e) {
+      console.error("Failed to load analysis cache", e);
+      return [];
+    }
+  },
+
+  getCachedAnalysis: (key: string): AnalysisCacheEntry | null => {
+    return storageService.getAnalysisCache().find(entry => entry.key === key) || null;
+  },
+
+  saveCachedAnalysis: (entry: AnalysisCacheEntry) => {
+    // Newest first; when storage is full, drop the oldest entries until it fits
+    let entries = [entry, ...storageService.getAnalysisCache().filter(e => e.key !== entry.key)].slice(0, MAX_CACHED_ANALYSES);
+    while (entries.length > 0) {
+      try {
+        localStorage.setItem(STORAGE_KEYS.ANALYSIS_CACHE, JSON.stringify(entries));
+        return;
+      } catch (e) {
+        entries = entries.slice(0, -1);
+      }
+    }
+    console.warn("Analysis is too large to cache");
+  },
+
+  clearAnalysisCache: () => {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.ANALYSIS_CACHE);
+    } catch (e) {
+      console.error("Failed to clear analysis cache", e);
+    }
+  },
+
+  getAllUsageRecords: (): UsageRecord[] => {
+    try {
+      const usageRaw = localStorage.getItem(STORAGE_KEYS.USAGE);
+      return usageRaw ? JSON.parse(usageRaw) : [];
+    } catch (e) {
+      console.error("Failed to load usage records", e);
+      return [];
+    }
+  },
+
+  getUsageRecords: (userId: string): UsageRecord[] => {
+    return storageService.getAllUsageRecords().filter(r => r.userId === userId);
+  },
+
+  saveUsageRecord: (record: UsageRecord) => {
+    try {
+      const records = [...storageService.getAllUsageRecords(), record].slice(-MAX_USAGE_RECORDS);
+      localStorage.setItem(STORAGE_KEYS.USAGE, JSON.stringify(records));
+    } catch (e) {
+      console.error("Failed to save usage record", e);
+    }
+  },
+
+  getUsageSettings: (userId: string): UsageSettings | null => {
+    try {
+      const settingsRaw = localStorage.getItem(STORAGE_KEYS.USAGE_SETTINGS);
+      const settings: Record<string, UsageSettings> = settingsRaw ? JSON.parse(settingsRaw) : {};
+      return settings[userId] || null;
+    } catch (e) {
+      console.error("Failed to load usage settings", e);
+      return null;
+    }
+  },
+
+  saveUsageSettings: (userId: string, usageSettings: UsageSettings) => {
+    try {
+      const settingsRaw = localStorage.getItem(STORAGE_KEYS.USAGE_SETTINGS);
+      const settings: Record<string, UsageSettings> = settingsRaw ? JSON.parse(settingsRaw) : {};
+      settings[userId] = usageSettings;
+      localStorage.setItem(STORAGE_KEYS.USAGE_SETTINGS, JSON.stringify(settings));
+    } catch (e) {
+      console.error("Failed to save usage settings", e);
+    }
+  },
+
+  getPlaybook: (userId: string): PlaybookRule[] => {
+    try {
+      const playbooksRaw = localStorage.getItem(STORAGE_KEYS.PLAYBOOKS);
+      const playbooks: Record<string, PlaybookRule[]> = playbooksRaw ? JSON.parse(playbooksRaw) : {};
+      return playbooks[userId] || [];
+    } catch (e) {
+      console.error("Failed to load playbook", e);
+      return [];
+    }
+  },
+
+  savePlaybook: (userId: string, rules: PlaybookRule[]) => {
+    try {
+      const playbooksRaw = localStorage.getItem(STORAGE_KEYS.PLAYBOOKS);
+      const playbooks: Record<string, PlaybookRule[]> = playbooksRaw ? JSON.parse(playbooksRaw) : {};
+      playbooks[userId] = rules;
+      localStorage.setItem(STORAGE_KEYS.PLAYBOOKS, JSON.stringify(playbooks));
+    } catch (e) {
+      console.error("Failed to save playbook", e);
+    }
+  },
+
+  getUploadQueueSettings: (userId: string): UploadQueueSettings | null => {
+    try {
+      const settingsRaw = localStorage.getItem(STORAGE_KEYS.UPLOAD_QUEUE);
+      const settings: Record<string, UploadQueueSettings> = settingsRaw ? JSON.parse(settingsRaw) : {};
+      return settings[userId] || null;
+    } catch (e) {
+      console.error("Failed to load upload queue settings", e);
+      return null;
+    }
+  },
+
+  saveUploadQueueSettings: (userId: string, queueSettings: UploadQueueSettings) => {
+    try {
+      const settingsRaw = localStorage.getItem(STORAGE_KEYS.UPLOAD_QUEUE);
+      const settings: Record<string, UploadQueueSettings> = settingsRaw ? JSON.parse(settingsRaw) : {};
+      settings[userId] = queueSettings;
+      localStorage.setItem(STORAGE_KEYS.UPLOAD_QUEUE, JSON.stringify(settings));
+    } catch (e) {
+      console.error("Failed to save upload queue settings", e);
+    }
   }
 };
\ No newline at end of file
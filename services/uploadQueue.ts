@@ -0,0 +1,483 @@
+import { Contract, RecentAnalysis, RiskLevel, SourcePage, UploadQueueSettings } from '../types';
+import { analyzeContract, AnalysisProgress, AnalysisStage } from './geminiService';
+import { AIErrorKind, AIServiceError } from './aiErrors';
+import { storageService } from './storageService';
+import { uploadQueueStore } from './uploadQueueStore';
+import { getBudgetStatus } from './usageService';
+import { applyPlaybook, getPlaybook } from './playbook';
+import { documentMimeType } from './documentText';
+import { CombinedDocument, CombinedPart, combineIntoPdf, toCombinedParts } from './combineDocuments';
+import { deleteSourceFile, saveSourceFile, sourceFileId } from './sourceFiles';
+import { bytesToBase64 } from './base64';
+
+// Files waiting for analysis, worked off a few at a time.
+// The queue lives outside React so a batch keeps running while the user looks at other views,
+// and every job is written to IndexedDB so an interrupted batch picks up again after a reload.
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 4;
+// Spacing between starts, so a full queue does not hit the API in one burst
+const START_INTERVAL_MS = 1500;
+// After a rate limit, wait this long before starting anything else
+export const QUOTA_COOLDOWN_MS = 30_000;
+// A job that keeps hitting the rate limit is failed instead of requeued forever
+const MAX_QUOTA_REQUEUES = 3;
+
+export type UploadJobStatus = 'pending' | 'queued' | 'processing' | 'success' | 'error' | 'cancelled';
+
+export interface UploadJob {
+  id: string;
+  userId: string;
+  addedAt: number;
+  // Place in the list. Jobs move after they are added (requeued, combined), so addedAt is not the order.
+  position: number;
+  file: File;
+  status: UploadJobStatus;
+  error?: string;
+  errorKind?: AIErrorKind; // Set when the AI call failed, drives the recovery actions
+  contract?: Contract;
+  progress?: AnalysisProgress;
+  pasted?: boolean; // Typed or pasted in rather than uploaded
+  // Photos and PDF pages combined into one document, in page order. file then only names the PDF built from them at analysis time.
+  parts?: CombinedPart[];
+  forceRefresh?: boolean; // Skip the analysis cache on the next run
+  quotaRequeues?: number;
+  startedAt?: number;
+  sectionStartedAt?: number; // When the current section of a long document started, for the estimate
+  finishedAt?: number;
+}
+
+export interface UploadQueueState {
+  userId: string | null;
+  jobs: UploadJob[];
+  settings: UploadQueueSettings;
+  // Set after a rate limit: nothing starts before then, and jobs run one at a time for the rest of the batch
+  cooldownUntil?: number;
+  throttled: boolean;
+}
+
+export interface BatchSummary {
+  analyzed: number;
+  cached: number;
+  failed: number;
+  cancelled: number;
+  risk: Record<RiskLevel, number>;
+  durationMs: number;
+}
+
+// Completes "Failed while ..."; written out rather than lowercased from the labels, which may hold names
+const FAILED_STAGE_PHRASES: Record<AnalysisStage, string> = {
+  reading: 'reading the file',
+  preparing: 'preparing the request',
+  extracting: 'extracting text',
+  sending: 'sending to the AI service',
+  waiting: 'waiting for the model',
+  validating: 'checking the response',
+  saving: 'saving',
+};
+
+const DEFAULT_SETTINGS: UploadQueueSettings = { concurrency: DEFAULT_CONCURRENCY, paused: false };
+
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+let state: UploadQueueState = { userId: null, jobs: [], settings: DEFAULT_SETTINGS, throttled: false };
+const listeners = new Set<() => void>();
+const controllers = new Map<string, AbortController>();
+let lastStartAt = 0;
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+const setState = (changes: Partial<UploadQueueState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+const updateSettings = (changes: Partial<UploadQueueSettings>) => {
+  if (!state.userId) return;
+  setState({ settings: { ...state.settings, ...changes } });
+  storageService.saveUploadQueueSettings(state.userId, state.settings);
+};
+
+// Progress changes often and is not worth persisting
+const updateJob = (id: string, changes: Partial<UploadJob>, persist = true) => {
+  setState({ jobs: state.jobs.map(job => (job.id === id ? { ...job, ...changes } : job)) });
+  const job = state.jobs.find(j => j.id === id);
+  if (persist && job) uploadQueueStore.saveJob(job);
+};
+
+// Sets the list order and stores the given jobs along with every job whose position changed
+const setJobOrder = (jobs: UploadJob[], changed: UploadJob[]) => {
+  const numbered = jobs.map((job, position) => (job.position === position ? job : { ...job, position }));
+  setState({ jobs: numbered });
+  numbered
+    .filter((job, i) => job !== jobs[i] || changed.includes(job))
+    .forEach(job => uploadQueueStore.saveJob(job));
+};
+
+const addJobs = (jobs: UploadJob[], at = state.jobs.length) => {
+  setJobOrder([...state.jobs.slice(0, at), ...jobs, ...state.jobs.slice(at)], jobs);
+};
+
+const removeJobs = (ids: string[]) => {
+  setState({ jobs: state.jobs.filter(job => !ids.includes(job.id)) });
+  ids.forEach(id => uploadQueueStore.deleteJob(id));
+};
+
+const newJob = (file: File, extra: Partial<UploadJob> = {}): UploadJob => ({
+  id: generateId(),
+  userId: state.userId!,
+  addedAt: Date.now(),
+  position: state.jobs.length, // Set for real when the job is added
+  file,
+  status: 'pending',
+  ...extra,
+});
+
+const isActive = (job: UploadJob) => job.status === 'queued' || job.status === 'processing';
+
+// Photos are stored as uploaded next to their shrunk copy in the PDF, so they can be downloaded unchanged
+const keepOriginalPhotos = async (contractId: string, combined: CombinedDocument): Promise<SourcePage[]> =>
+  Promise.all(combined.sourcePages.map(async (page, index) => {
+    if (page.page !== undefined) return page;
+    const id = sourceFileId(contractId, index);
+    return (await saveSourceFile(id, combined.pageFiles[index])) ? { ...page, originalId: id } : page;
+  }));
+
+const analyzeJob = async (job: UploadJob, signal: AbortSignal, onProgress: (progress: AnalysisProgress) => void): Promise<Contract> => {
+  onProgress({ stage: 'reading', section: 0, totalSections: 0, label: '' });
+  // Combined documents are built into one PDF here, so reordering stays cheap until then
+  const combined = job.parts ? await combineIntoPdf(job.parts) : null;
+  const base64Data = combined ? combined.base64Data : bytesToBase64(new Uint8Array(await job.file.arrayBuffer()));
+  const mimeType = combined ? 'application/pdf' : documentMimeType(job.file);
+  signal.throwIfAborted();
+
+  // Analyze, then check the clauses against the user's house rules
+  let last: AnalysisProgress | undefined;
+  const analysis = applyPlaybook(
+    await analyzeContract(base64Data, mimeType, { onProgress: progress => onProgress(last = progress), forceRefresh: job.forceRefresh, signal }),
+    getPlaybook(job.userId)
+  );
+  onProgress({ stage: 'saving', section: last?.section ?? 0, totalSections: last?.totalSections ?? 0, label: '' });
+  signal.throwIfAborted();
+
+  const contractId = job.contract?.id || job.id;
+  const sourcePages = combined ? await keepOriginalPhotos(contractId, combined) : undefined;
+  // Last point to back out: once saved, the contract is on the dashboard. A first analysis leaves
+  // no photos behind; a re-analysis wrote the same photos over those of the saved contract, so they stay.
+  if (signal.aborted) {
+    if (!job.contract) {
+      await Promise.all((sourcePages || []).filter(page => page.originalId).map(page => deleteSourceFile(page.originalId!)));
+    }
+    signal.throwIfAborted();
+  }
+
+  const contract: Contract = {
+    // Re-analyzing replaces the contract saved for this job instead of adding another
+    id: contractId,
+    userId: job.userId,
+    fileName: job.file.name,
+    uploadDate: Date.now(),
+    status: 'analyzed',
+    analysis,
+    fileData: base64Data,
+    mimeType,
+    ...(sourcePages ? { sourcePages } : {}),
+  };
+
+  try {
+    await storageService.saveContract(contract);
+  } catch (storageError) {
+    console.error("Storage error", storageError);
+    throw new Error("Analyzed successfully but failed to save to browser storage. Check available disk space.");
+  }
+
+  const recentAnalysis: RecentAnalysis = {
+    id: contract.id,
+    name: contract.fileName,
+    createdAt: new Date(contract.uploadDate).toISOString(),
+    sourceType: job.pasted ? 'text' : 'file',
+    fileName: contract.fileName,
+    rawText: analysis.fullText || '',
+    riskScore: analysis.riskScore || 0,
+    riskSummary: analysis.overallRisk,
+    summary: [analysis.summary],
+    clauses: analysis.clauses
+  };
+  storageService.saveRecentAnalysis(recentAnalysis);
+
+  return contract;
+};
+
+const startJob = (job: UploadJob) => {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  updateJob(job.id, { status: 'processing', error: undefined, errorKind: undefined, startedAt: Date.now(), sectionStartedAt: undefined });
+
+  // Remembered so a failure can say where it happened
+  let stage: AnalysisStage = 'reading';
+  const onProgress = (progress: AnalysisProgress) => {
+    stage = progress.stage;
+    const current = state.jobs.find(j => j.id === job.id);
+    const newSection = progress.section !== current?.progress?.section;
+    updateJob(job.id, { progress, ...(newSection ? { sectionStartedAt: Date.now() } : {}) }, false);
+  };
+
+  analyzeJob(job, controller.signal, onProgress)
+    .then(contract => {
+      // Cancelled after the last check; the saved contract stays, but the job keeps its cancelled state
+      if (state.jobs.find(j => j.id === job.id)?.status !== 'processing') return;
+      updateJob(job.id, { status: 'success', contract, progress: undefined, forceRefresh: undefined, quotaRequeues: undefined, finishedAt: Date.now() });
+    })
+    .catch((error: any) => {
+      if (controller.signal.aborted) {
+        // Cancelled jobs are already marked; anything else was interrupted and runs again later
+        if (state.jobs.find(j => j.id === job.id)?.status === 'processing') {
+          updateJob(job.id, { status: 'queued', progress: undefined });
+        }
+        return;
+      }
+      if (error instanceof AIServiceError && error.kind === 'quota' && (job.quotaRequeues || 0) < MAX_QUOTA_REQUEUES) {
+        // Back in line ahead of the files that have not started yet, since it started before them
+        console.warn("Rate limited, requeueing", job.file.name);
+        setState({ cooldownUntil: Date.now() + QUOTA_COOLDOWN_MS, throttled: true });
+        updateJob(job.id, { status: 'queued', progress: undefined, quotaRequeues: (job.quotaRequeues || 0) + 1 });
+        return;
+      }
+      console.error("Error processing file", job.file.name, stage, error);
+      updateJob(job.id, {
+        status: 'error',
+        error: `Failed while ${FAILED_STAGE_PHRASES[stage]}: ${error.message || 'an unexpected error occurred.'}`,
+        errorKind: error instanceof AIServiceError ? error.kind : undefined,
+        progress: undefined,
+        finishedAt: Date.now(),
+      });
+    })
+    .finally(() => {
+      controllers.delete(job.id);
+      pump();
+    });
+};
+
+// Starts queued jobs in list order while there is room, honoring the spacing and any rate-limit cooldown
+const pump = () => {
+  clearTimeout(timer);
+  timer = undefined;
+  if (!state.userId) return;
+
+  const next = state.jobs.find(job => job.status === 'queued');
+  if (!next) {
+    if (state.settings.batchStartedAt && !state.settings.batchFinishedAt && !state.jobs.some(isActive)) {
+      setState({ throttled: false, cooldownUntil: undefined });
+      updateSettings({ batchFinishedAt: Date.now() });
+    }
+    return;
+  }
+  if (state.settings.paused) return;
+
+  const limit = state.throttled ? 1 : state.settings.concurrency;
+  if (state.jobs.filter(job => job.status === 'processing').length >= limit) return;
+
+  const now = Date.now();
+  const wait = Math.max((state.cooldownUntil || 0) - now, lastStartAt + START_INTERVAL_MS - now);
+  if (wait > 0) {
+    timer = setTimeout(pump, wait);
+    return;
+  }
+
+  lastStartAt = now;
+  startJob(next);
+  pump();
+};
+
+const abortRunning = () => {
+  controllers.forEach(controller => controller.abort());
+  controllers.clear();
+};
+
+export const uploadQueue = {
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+
+  getState: () => state,
+
+  // Restores the user's queue. Jobs cut off by the reload run again; over budget, the queue waits paused for a confirmation.
+  load: async (userId: string) => {
+    if (state.userId === userId) return;
+    uploadQueue.unload();
+    const settings = storageService.getUploadQueueSettings(userId) || DEFAULT_SETTINGS;
+    const jobs = (await uploadQueueStore.getJobs(userId)).map(job => ({
+      ...job,
+      status: job.status === 'processing' ? 'queued' as const : job.status,
+    }));
+    const paused = settings.paused || (jobs.some(isActive) && !!getBudgetStatus(userId)?.overLimit);
+    setState({ userId, jobs, settings: { ...settings, paused }, throttled: false, cooldownUntil: undefined });
+    pump();
+  },
+
+  // Stops work on logout; running jobs stay queued for the next visit
+  unload: () => {
+    clearTimeout(timer);
+    abortRunning();
+    setState({ userId: null, jobs: [], settings: DEFAULT_SETTINGS, throttled: false, cooldownUntil: undefined });
+  },
+
+  addFiles: (files: File[], extra: Partial<UploadJob> = {}) => {
+    if (!state.userId) return;
+    addJobs(files.map(file => newJob(file, extra)));
+  },
+
+  // The given pending jobs become one job where the first of them was, pages in list order.
+  // PDFs are split into their pages, so every page can be moved on its own.
+  combine: async (ids: string[], fileName: string) => {
+    const jobs = state.jobs.filter(job => ids.includes(job.id) && job.status === 'pending' && !job.parts);
+    if (jobs.length < 2) return;
+    const parts = (await Promise.all(jobs.map(job => toCombinedParts(job.file)))).flat();
+    const at = state.jobs.indexOf(jobs[0]);
+    removeJobs(jobs.map(job => job.id));
+    addJobs([newJob(new File([], fileName, { type: 'application/pdf' }), { parts })], Math.max(0, at));
+  },
+
+  // Back to the files that went in, each once
+  split: (id: string) => {
+    const job = state.jobs.find(j => j.id === id);
+    if (!job?.parts || job.status !== 'pending') return;
+    const at = state.jobs.indexOf(job);
+    removeJobs([id]);
+    addJobs(Array.from(new Set(job.parts.map(part => part.file))).map(file => newJob(file)), at);
+  },
+
+  setParts: (id: string, parts: CombinedPart[]) => {
+    if (parts.length === 0) {
+      removeJobs([id]);
+      return;
+    }
+    // One whole file left is no longer a combination; a single PDF page still is
+    if (parts.length === 1 && parts[0].page === undefined) {
+      updateJob(id, { file: parts[0].file, parts: undefined });
+      return;
+    }
+    updateJob(id, { parts });
+  },
+
+  // A photo taken out of a combination goes back to the list as its own job, right after it.
+  // A PDF page is only left out; splitting the combination brings the whole PDF back.
+  removePart: (id: string, partIndex: number) => {
+    const job = state.jobs.find(j => j.id === id);
+    if (!job?.parts) return;
+    const part = job.parts[partIndex];
+    uploadQueue.setParts(id, job.parts.filter((_, i) => i !== partIndex));
+    if (part.page === undefined) {
+      addJobs([newJob(part.file)], state.jobs.findIndex(j => j.id === id) + 1);
+    }
+  },
+
+  rename: (id: string, fileName: string) => {
+    updateJob(id, { file: new File([], fileName, { type: 'application/pdf' }) });
+  },
+
+  remove: (id: string) => {
+    if (state.jobs.find(j => j.id === id)?.status === 'processing') return;
+    removeJobs([id]);
+  },
+
+  // Everything that is not running right now
+  clear: () => {
+    removeJobs(state.jobs.filter(job => job.status !== 'processing').map(job => job.id));
+  },
+
+  clearFinished: () => {
+    removeJobs(state.jobs.filter(job => job.status === 'success' || job.status === 'cancelled').map(job => job.id));
+    updateSettings({ batchStartedAt: undefined, batchFinishedAt: undefined });
+  },
+
+  // Queues the given jobs at the back of the line. Starting from an idle queue begins a new batch.
+  enqueue: (ids: string[], options: { forceRefresh?: boolean } = {}) => {
+    const jobs = state.jobs.filter(job => ids.includes(job.id) && !isActive(job));
+    if (jobs.length === 0) return;
+    if (!state.jobs.some(isActive)) {
+      updateSettings({ batchStartedAt: Date.now(), batchFinishedAt: undefined });
+    }
+    // Jobs start in list order, so requeued ones move to the end
+    const rest = state.jobs.filter(job => !jobs.includes(job));
+    const queued = jobs.map(job => ({
+      ...job,
+      status: 'queued' as const,
+      error: undefined,
+      errorKind: undefined,
+      quotaRequeues: undefined,
+      finishedAt: undefined,
+      forceRefresh: options.forceRefresh || undefined,
+    }));
+    setJobOrder([...rest, ...queued], queued);
+    pump();
+  },
+
+  cancel: (id: string) => {
+    const job = state.jobs.find(j => j.id === id);
+    if (!job || !isActive(job)) return;
+    updateJob(id, { status: 'cancelled', progress: undefined, finishedAt: Date.now() });
+    controllers.get(id)?.abort();
+    pump();
+  },
+
+  // Files already being analyzed finish; nothing new starts until resumed
+  pause: () => {
+    updateSettings({ paused: true });
+    clearTimeout(timer);
+  },
+
+  resume: () => {
+    updateSettings({ paused: false });
+    pump();
+  },
+
+  setConcurrency: (concurrency: number) => {
+    updateSettings({ concurrency: Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(concurrency))) });
+    pump();
+  },
+};
+
+// Results of the jobs finished in the current batch
+export const summarizeBatch = (jobs: UploadJob[], settings: UploadQueueSettings): BatchSummary | null => {
+  const { batchStartedAt, batchFinishedAt } = settings;
+  if (!batchStartedAt || !batchFinishedAt) return null;
+
+  const finished = jobs.filter(job => job.finishedAt && job.finishedAt >= batchStartedAt);
+  const analyzed = finished.filter(job => job.status === 'success');
+  const risk = { [RiskLevel.HIGH]: 0, [RiskLevel.MEDIUM]: 0, [RiskLevel.LOW]: 0 };
+  analyzed.forEach(job => {
+    const level = job.contract?.analysis?.overallRisk;
+    if (level) risk[level]++;
+  });
+
+  return {
+    analyzed: analyzed.length,
+    cached: analyzed.filter(job => job.contract?.analysis?.cachedAt).length,
+    failed: finished.filter(job => job.status === 'error').length,
+    cancelled: finished.filter(job => job.status === 'cancelled').length,
+    risk,
+    durationMs: batchFinishedAt - batchStartedAt,
+  };
+};
+
+// Time left for a running job: from the sections done so far, or else from how long earlier files took on average
+export const estimateRemainingMs = (job: UploadJob, jobs: UploadJob[], now = Date.now()): number | null => {
+  const { progress, startedAt, sectionStartedAt } = job;
+  if (job.status !== 'processing' || !startedAt) return null;
+  const elapsed = now - startedAt;
+
+  let total: number | null = null;
+  if (progress && progress.section > 1 && sectionStartedAt) {
+    total = (sectionStartedAt - startedAt) / (progress.section - 1) * progress.totalSections;
+  } else {
+    const durations = jobs
+      .filter(j => j.status === 'success' && j.startedAt && j.finishedAt && !j.contract?.analysis?.cachedAt)
+      .map(j => j.finishedAt! - j.startedAt!);
+    if (durations.length > 0) {
+      total = durations.reduce((sum, d) => sum + d, 0) / durations.length;
+    }
+  }
+
+  return total !== null && total > elapsed ? total - elapsed : null;
+};
@@ -0,0 +1,35 @@
+import type { UploadJob } from "./uploadQueue";
+import { STORES, runInStore } from "./browserDb";
+
+// Queued files are too big for localStorage, so jobs (files included) are kept in IndexedDB.
+// Failures are logged and ignored: the queue keeps working in memory, it just won't survive a reload.
+
+export const uploadQueueStore = {
+  getJobs: async (userId: string): Promise<UploadJob[]> => {
+    try {
+      const jobs = await runInStore<UploadJob[]>(STORES.UPLOAD_JOBS, 'readonly', store => store.getAll());
+      return jobs.filter(job => job.userId === userId).sort((a, b) => a.position - b.position);
+    } catch (e) {
+      console.error("Failed to load upload queue", e);
+      return [];
+    }
+  },
+
+  // Progress is only meaningful while the page is open
+  saveJob: async (job: UploadJob) => {
+    try {
+      const { progress: _progress, ...stored } = job;
+      await runInStore(STORES.UPLOAD_JOBS, 'readwrite', store => store.put(stored));
+    } catch (e) {
+      console.error("Failed to save upload job", e);
+    }
+  },
+
+  deleteJob: async (id: string) => {
+    try {
+      await runInStore(STORES.UPLOAD_JOBS, 'readwrite', store => store.delete(id));
+    } catch (e) {
+      console.error("Failed to delete upload job", e);
+    }
+  },
+};
@@ -0,0 +1,139 @@
+import { ModelPrice, TokenUsage, UsageRecord, UsageSettings } from "../types";
+import { storageService } from "./storageService";
+
+// Token metering for AI calls, with cost estimates and a soft monthly budget per user.
+
+// USD per million tokens, from the providers' public price lists. Users can override them in their profile.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+};
+
+// Share of the budget at which the upload screen starts warning
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export const getUsageSettings = (userId: string): UsageSettings => {
+  const saved = storageService.getUsageSettings(userId);
+  return {
+    monthlyBudget: saved?.monthlyBudget,
+    prices: { ...DEFAULT_PRICES, ...saved?.prices },
+  };
+};
+
+export const saveUsageSettings = (userId: string, settings: UsageSettings) => {
+  storageService.saveUsageSettings(userId, settings);
+};
+
+// Records one completed call for the signed-in user. Calls made while signed out are not metered.
+export const recordUsage = (fn: string, model: string, usage: TokenUsage | undefined, latencyMs: number) => {
+  const user = storageService.getCurrentUser();
+  if (!user) return;
+
+  storageService.saveUsageRecord({
+    userId: user.id,
+    timestamp: Date.now(),
+    fn,
+    model,
+    inputTokens: usage?.inputTokens || 0,
+    outputTokens: usage?.outputTokens || 0,
+    latencyMs: Math.round(latencyMs),
+  });
+};
+
+// Returns null when the model has no price, so unknown costs are not shown as zero
+export const estimateCost = (record: Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens'>, prices: Record<string, ModelPrice>): number | null => {
+  const price = prices[record.model];
+  if (!price) return null;
+  return (record.inputTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  unpricedCalls: number; // Calls whose model is missing from the price table
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedCalls: 0 });
+
+export const totalUsage = (records: UsageRecord[], prices: Record<string, ModelPrice>): UsageTotals =>
+  records.reduce((totals, record) => {
+    const cost = estimateCost(record, prices);
+    totals.calls++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    if (cost === null) totals.unpricedCalls++;
+    else totals.cost += cost;
+    return totals;
+  }, emptyTotals());
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  byFunction: { fn: string; totals: UsageTotals; averageLatencyMs: number }[]; // This month, most expensive first
+  daily: { day: number; totals: UsageTotals }[]; // Each day of this month so far, oldest first
+}
+
+export const summarizeUsage = (records: UsageRecord[], prices: Record<string, ModelPrice>, now: Date = new Date()): UsageSummary => {
+  const dayStart = startOfDay(now);
+  const monthStart = startOfMonth(now);
+  const thisMonth = records.filter(r => r.timestamp >= monthStart);
+
+  const byFunction = Array.from(new Set(thisMonth.map(r => r.fn))).map(fn => {
+    const calls = thisMonth.filter(r => r.fn === fn);
+    return {
+      fn,
+      totals: totalUsage(calls, prices),
+      averageLatencyMs: Math.round(calls.reduce((sum, r) => sum + r.latencyMs, 0) / calls.length),
+    };
+  }).sort((a, b) => b.totals.cost - a.totals.cost || b.totals.calls - a.totals.calls);
+
+  const daily = [];
+  for (let day = new Date(monthStart); day.getTime() <= dayStart; day.setDate(day.getDate() + 1)) {
+    const start = day.getTime();
+    const end = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+    daily.push({ day: start, totals: totalUsage(thisMonth.filter(r => r.timestamp >= start && r.timestamp < end), prices) });
+  }
+
+  return {
+    today: totalUsage(thisMonth.filter(r => r.timestamp >= dayStart), prices),
+    month: totalUsage(thisMonth, prices),
+    byFunction,
+    daily,
+  };
+};
+
+export interface BudgetStatus {
+  budget: number;
+  spent: number;
+  ratio: number;
+  nearLimit: boolean;
+  overLimit: boolean;
+}
+
+// Null when the user has not set a budget
+export const getBudgetStatus = (userId: string): BudgetStatus | null => {
+  const settings = getUsageSettings(userId);
+  if (!settings.monthlyBudget) return null;
+
+  const monthStart = startOfMonth(new Date());
+  const records = storageService.getUsageRecords(userId).filter(r => r.timestamp >= monthStart);
+  const spent = totalUsage(records, settings.prices).cost;
+  const ratio = spent / settings.monthlyBudget;
+
+  return {
+    budget: settings.monthlyBudget,
+    spent,
+    ratio,
+    nearLimit: ratio >= BUDGET_WARNING_RATIO,
+    overLimit: ratio >= 1,
+  };
+};
+
+export const formatCost = (cost: number) =>
+  cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
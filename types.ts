@@ -2,6 +2,7 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  outputLanguage?: string; // ISO 639-1 code for AI explanations; English when unset
 }
 
 export enum RiskLevel {
@@ -10,10 +11,31 @@ export enum RiskLevel {
   HIGH = 'High',
 }
 
+// What a clause is about, independent of how risky it is
+export enum RiskCategory {
+  PAYMENT = 'Payment',
+  TERMINATION = 'Termination',
+  LIABILITY = 'Liability',
+  INDEMNIFICATION = 'Indemnification',
+  RENEWAL = 'Renewal',
+  WAIVER_OF_RIGHTS = 'Waiver of Rights',
+  NOTICE_PERIOD = 'Notice Period',
+  DATA_PRIVACY = 'Data Privacy',
+  CONFIDENTIALITY = 'Confidentiality',
+  INTELLECTUAL_PROPERTY = 'Intellectual Property',
+  DISPUTE_RESOLUTION = 'Dispute Resolution',
+  AMBIGUITY = 'Ambiguity',
+  OTHER = 'Other',
+}
+
+// 'stopped' = cancelled by the user, 'failed' = connection lost; both may carry partial text
+export type ResponseStatus = 'complete' | 'stopped' | 'failed';
+
 export interface QAPair {
   question: string;
   answer: string;
   timestamp: number;
+  status?: ResponseStatus;
 }
 
 export interface Clause {
@@ -21,17 +43,148 @@ export interface Clause {
   text: string;
   explanation: string;
   riskLevel: RiskLevel;
+  category?: RiskCategory; // Missing on analyses saved before categories existed; see clauseCategory()
   riskyKeywords: string[];
   reason: string;
   conversationHistory?: QAPair[];
+  // Where the clause sits in the analysis fullText; missing when it could not be found
+  startOffset?: number;
+  endOffset?: number;
+  page?: number; // 1-based, only known when fullText has page breaks
+  rewrite?: ClauseRewrite;
+  playbookFindings?: PlaybookFinding[]; // House rules that matched; kept apart from the AI's riskLevel
+  confidence?: number; // 0-1; missing on analyses saved before confidence was reported
+  review?: ClauseReview;
+}
+
+// A person's verdict on a clause flagged for review. Corrections replace riskLevel and keep the original here.
+export interface ClauseReview {
+  status: 'confirmed' | 'corrected';
+  reviewer: string;
+  reviewedAt: number;
+  originalRiskLevel?: RiskLevel; // Set when corrected
+  note?: string;
+}
+
+// A house rule from the user's playbook. Every condition that is set must match the clause.
+export interface PlaybookRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  keywords?: string[]; // Any one of them, case-insensitive
+  pattern?: string; // Regular expression source, matched case-insensitively
+  category?: RiskCategory;
+  riskLevel: RiskLevel; // Forced level when the rule matches
+  message: string;
+}
+
+export interface PlaybookFinding {
+  ruleId: string;
+  ruleName: string;
+  riskLevel: RiskLevel;
+  message: string;
+  matched: string[]; // The keywords or pattern matches that triggered the rule
+}
+
+// A fairer wording proposed for a Medium or High risk clause. Discarding removes it from the clause.
+export interface ClauseRewrite {
+  text: string; // Replacement wording, in the contract's language
+  rationale: string; // Why the other side should accept it
+  fallback: string; // What to settle for if they don't
+  status: 'suggested' | 'accepted';
+  edited?: boolean; // The user changed the suggested wording
+  provenance?: Provenance;
+}
+
+// Result of the offline keyword rules, kept next to an AI analysis for comparison
+export interface RuleBaseline {
+  overallRisk: RiskLevel;
+  riskScore: number;
+  flaggedClauses: number; // Medium and High findings
+}
+
+// A fact taken from the contract, with the passage it came from
+export interface KeyFact {
+  value: string;
+  sourceQuote?: string;
+  edited?: boolean; // Set once the user has corrected the extracted value
+}
+
+// The basics people otherwise retype by hand. Dates are YYYY-MM-DD when the contract states a full date.
+export interface KeyFacts {
+  parties: KeyFact[];
+  effectiveDate?: KeyFact;
+  expiryDate?: KeyFact;
+  renewalTerms?: KeyFact;
+  noticePeriod?: KeyFact;
+  fees: KeyFact[];
+  liabilityCap?: KeyFact;
+  governingLaw?: KeyFact;
 }
 
 export interface ContractAnalysis {
   summary: string;
   overallRisk: RiskLevel;
   riskScore?: number; // 0-100 score
+  // The model's own rating, kept while reviewer corrections decide overallRisk and riskScore
+  modelRating?: { overallRisk: RiskLevel; riskScore?: number };
   clauses: Clause[];
-  fullText?: string; // OCR extracted text
+  fullText?: string; // Extracted or OCR'd text; PDF pages are separated by form feeds
+  textExtraction?: TextExtraction; // Missing on analyses saved before text was extracted locally
+  ocrPages?: number[]; // 1-based pages the model had to transcribe, when only part of a PDF was scanned
+  keyFacts?: KeyFacts; // Missing on offline analyses and on analyses saved before extraction existed
+  confidence?: number; // 0-1, for the analysis as a whole (OCR quality, unusual documents)
+  contractType?: ContractType;
+  // Expected protections the document lacks. Undefined when no checklist was run (non-English or non-legal documents)
+  missingProtections?: MissingProtection[];
+  sourceLanguage?: string; // ISO 639-1 code of the document, when it could be detected
+  outputLanguage?: string; // Language of the summary and explanations; English when unset
+  source?: 'ai' | 'rules'; // Missing on analyses saved before the offline analyzer existed
+  ruleBaseline?: RuleBaseline;
+  contentHash?: string; // SHA-256 of the analyzed file
+  cachedAt?: number; // Set when the result was reused from the analysis cache instead of a new AI call
+  provenance?: Provenance; // Missing on offline analyses and on analyses saved before prompts were versioned
+}
+
+// How fullText was obtained. 'text': read from a text, Markdown or Word file. 'pdf-text': every PDF page
+// had a text layer. 'pdf-mixed': text layer plus OCR of the scanned pages. 'ocr': the model transcribed it all.
+export type TextExtraction = 'text' | 'pdf-text' | 'pdf-mixed' | 'ocr';
+
+export enum ContractType {
+  LEASE = 'Lease',
+  NDA = 'NDA',
+  EMPLOYMENT = 'Employment',
+  SAAS = 'SaaS / Terms of Service',
+  LOAN = 'Loan',
+  SERVICES = 'Services',
+  OTHER = 'Other',
+}
+
+// A protection the checklist for the contract type expects but the document does not contain
+export interface MissingProtection {
+  id: string;
+  label: string;
+  description: string; // Why it matters
+  importance: 'essential' | 'recommended';
+  riskPoints: number; // Added to riskScore
+}
+
+// How an AI result was produced, so it can be told apart from results of older prompts or other models
+export interface Provenance {
+  model: string;
+  promptVersion: string; // e.g. "contract-analysis@1"
+  temperature?: number; // Undefined means the provider default
+  createdAt: number;
+}
+
+// A stored analysis, reused when the same file is analyzed again with the same model and prompt
+export interface AnalysisCacheEntry {
+  key: string;
+  contentHash: string;
+  model: string;
+  promptVersion: string;
+  analysis: ContractAnalysis;
+  createdAt: number;
 }
 
 export interface Contract {
@@ -43,6 +196,15 @@ export interface Contract {
   analysis?: ContractAnalysis;
   fileData?: string; // Base64 representation for demo purposes
   mimeType?: string;
+  sourcePages?: SourcePage[]; // Set when several files were combined into one PDF, one entry per page
+}
+
+// Where a page of a combined document came from
+export interface SourcePage {
+  fileName: string;
+  mimeType: string;
+  page?: number; // 1-based page within the original file, for PDFs
+  originalId?: string; // The photo as uploaded, in the source file store; the PDF only holds a shrunk copy
 }
 
 export interface RecentAnalysis {
@@ -58,6 +220,41 @@ export interface RecentAnalysis {
   clauses: Clause[];
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// One metered AI call, stored per user
+export interface UsageRecord {
+  userId: string;
+  timestamp: number;
+  fn: string; // Service function that made the call, e.g. "analyzeContract"
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageSettings {
+  monthlyBudget?: number; // USD; analyses ask for confirmation once it is reached
+  prices: Record<string, ModelPrice>; // Keyed by model name
+}
+
+// How the upload queue runs for a user; the queued files themselves are kept in IndexedDB
+export interface UploadQueueSettings {
+  concurrency: number; // Files analyzed at the same time
+  paused: boolean;
+  batchStartedAt?: number;
+  batchFinishedAt?: number; // Set once every file of the batch has finished, failed or been cancelled
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
@@ -67,10 +264,12 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  status?: ResponseStatus;
 }
 
 export interface ComparisonResult {
   recommendedId: string;
   reasoning: string;
   keyDifferences: string[];
+  provenance?: Provenance;
 }
\ No newline at end of file
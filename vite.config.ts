@@ -8,11 +8,16 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // AI calls go to the local proxy server (npm run server), which holds the API key
+          '/api': `http://127.0.0.1:${env.PROXY_PORT || 3001}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // No keys here: everything in define ends up in the client bundle
+        'process.env.AI_PROVIDER': JSON.stringify('proxy'),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL || '/api')
       },
       resolve: {
         alias: {